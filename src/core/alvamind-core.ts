@@ -1,4 +1,13 @@
 // Ultra-Optimized Alvamind Core (v2.0)
+import { produce, type Draft } from './draft';
+import { createEffect, type EffectContext, type EffectOptions } from './effect';
+import { CircularDependencyError, ListenerError, MigrationError, UpdateError } from './errors';
+import { applyPatch, createPatch, type JsonPatchOp } from './json-patch';
+import { isLazy, resolveLazy } from './lazy';
+import { persistKey, persistState, type PersistAdapter, type PersistOptions } from './persist';
+import { validateSync, type StandardSchemaV1 } from './schema';
+import { autorun, batch, computed, signal, untracked, type ReadonlySignal, type Signal } from './signals';
+import { iterate, observe, type Observable, type StreamSource } from './streams';
 
 // Core types
 export type Fn<A extends unknown[] = unknown[], R = unknown> = (...args: A) => R;
@@ -10,12 +19,90 @@ export type Flow = <A extends unknown[], B, C>(
 ) => (...args: A) => C;
 
 export type StateListener<T> = (next: T, prev: T) => void;
+// Updaters receive the state as it stands after earlier updates in the same batch
+export type StateUpdater<T> = (prev: T) => Partial<T>;
+export type StateUpdate<T> = Partial<T> | StateUpdater<T>;
+
+// Depth-limited so recursive state shapes don't blow up the type checker
+type Depth = [never, 0, 1, 2, 3, 4, 5, 6, 7];
+export type StatePath<T, D extends number = 8> = [D] extends [never] ? never
+  : T extends Fn ? never
+  : T extends readonly (infer E)[] ? [number] | [number, ...StatePath<E, Depth[D]>]
+  : T extends object ? { [K in keyof T & (string | number)]-?: [K] | [K, ...StatePath<NonNullable<T[K]>, Depth[D]>] }[keyof T & (string | number)]
+  : never;
+export type PathValue<T, P extends readonly unknown[]> = P extends readonly [infer K, ...infer R]
+  ? PathValue<K extends keyof NonNullable<T> ? NonNullable<T>[K] : never, R>
+  : T;
+export type Equality<T> = (a: T, b: T) => boolean;
+// Memoized getter: recomputes only when the snapshot changes, keeps the old result while equal
+export type Selector<R> = () => R;
+
+export type DeepPartial<T> = T extends Fn | readonly unknown[] ? T
+  : T extends object ? { [K in keyof T]?: DeepPartial<T[K]> }
+  : T;
+// Sees each batch as one combined patch before it is committed. Call next (optionally with a
+// changed patch) to continue, or return prev to veto the batch.
+export type StateMiddleware<T> = (prev: T, patch: Readonly<Partial<T>>, next: (patch: Partial<T>) => T) => T;
+
+export type StateEquality<T> = { [K in keyof T]?: Equality<T[K]> };
+
+export type StateSnapshot<T = unknown> = Readonly<{ version: number; state: T }>;
+// migrations[n] upgrades a version n - 1 state to version n
+export type Migrations = Readonly<Record<number, (state: any) => any>>;
+export type StateOptions<T = any> = {
+  name?: string;
+  version?: number;
+  migrations?: Migrations;
+  // Checked against the initial state and every committed update
+  schema?: StandardSchemaV1<unknown, T>;
+  // Receives listener failures, and updates a batched commit had to leave out; without it they
+  // are rethrown once every listener has run
+  onError?: (error: ListenerError | UpdateError) => void;
+  // Rethrow listener failures even when onError handles them
+  strict?: boolean;
+  // Per-key equality deciding whether a key really changed; Object.is by default
+  equals?: StateEquality<T>;
+  // Track which keys select/watch/watchSelect read, and re-run them only when those change
+  reactive?: boolean;
+};
+
 export type State<T> = Readonly<{
   get: () => T;
-  set: (s: Partial<T>) => void;
+  set: (s: StateUpdate<T>) => void;
   current: T;
   add: (fn: StateListener<T>) => void;
   remove: (fn: StateListener<T>) => void;
+  // add/remove as a pair, matching React's useSyncExternalStore(subscribe, getSnapshot)
+  subscribe: (fn: StateListener<T>) => () => void;
+  // Same reference until the next commit
+  getSnapshot: () => T;
+  // Runs fn and commits its updates synchronously, notifying listeners once; discards them if fn throws
+  transaction: <R>(fn: () => R) => R;
+  // Commits pending updates now instead of waiting for the microtask
+  flush: () => void;
+  // Replaces a nested value, copying only the objects along the path
+  setIn: <P extends StatePath<T>>(path: P, value: PathValue<T, P>) => void;
+  // Recursively merges plain objects instead of replacing them; arrays and other values are replaced
+  merge: (patch: DeepPartial<T>) => void;
+  // Mutate a copy-on-write draft; batched like set, and untouched branches keep their references
+  update: (recipe: (draft: Draft<T>) => void) => void;
+  select: <R>(selector: (s: T) => R, equals?: Equality<R>) => Selector<R>;
+  // Committed value of one key as a signal, for use in computed/autorun
+  signal: <K extends keyof T>(key: K) => ReadonlySignal<T[K]>;
+  snapshot: () => StateSnapshot<T>;
+  // Migrates an older snapshot to the current version and commits it synchronously
+  restore: (snapshot: StateSnapshot) => void;
+  // Middleware runs in registration order; returns a function that removes it
+  use: (middleware: StateMiddleware<T>) => () => void;
+  // Receives the RFC 6902 operations of each committed batch; returns a function that unsubscribes
+  onPatch: (fn: (ops: JsonPatchOp[]) => void) => () => void;
+  // Queues JSON Patch operations as one update, e.g. to replay another store's onPatch feed
+  applyPatch: (ops: readonly JsonPatchOp[]) => void;
+  // Streams of committed snapshots, starting with the next commit
+  [Symbol.asyncIterator]: () => AsyncIterableIterator<T>;
+  toObservable: () => Observable<T>;
+  // Ends every open iterator and observable subscription; listeners are unaffected
+  complete: () => void;
 }>;
 
 // Update Methods type to allow any value
@@ -37,27 +124,101 @@ type PipeCtx<S, C, M extends Methods> = BaseCtx<S, C, M> & {
   pipe: <T, R>(input: T, ...fns: Array<(arg: any) => any>) => R
 };
 
+export type WatchOptions = {
+  // Call right away with the current value; the previous value is undefined on that call
+  immediate?: boolean;
+  // Remove the watcher after its first call
+  once?: boolean;
+};
+
 export type Core<S = {}, C = {}, M extends Methods = {}> = Readonly<{
   state: State<S>;
   config: C;
   inject: <T extends Methods>(m: T) => Core<S, C, M & T>;
-  derive: <D extends Methods>(fn: (c: CoreCtx<S, C, M>) => D) => Core<S, C, M & D>;
-  watch: <K extends keyof S>(k: K, fn: (n: S[K], p: S[K]) => void) => Core<S, C, M>;
+  // Async factories are injected once they resolve; await ready() before calling their methods
+  derive: <D extends Methods>(fn: (c: CoreCtx<S, C, M>) => D | PromiseLike<D>) => Core<S, C, M & D>;
+  watch: <K extends keyof S>(k: K, fn: (n: S[K], p: S[K]) => void, opts?: WatchOptions) => Core<S, C, M>;
+  watchSelect: <R>(selector: (s: S) => R, fn: (n: R, p: R) => void, opts?: WatchOptions & { equals?: Equality<R> }) => Core<S, C, M>;
+  // Removes every watcher registered with this callback; stop() removes all of them
+  unwatch: (fn: Fn<any[], unknown>) => Core<S, C, M>;
+  // Runs fn when any of the keys change; cancelled and torn down when the module stops
+  effect: <K extends keyof S>(keys: K | readonly K[], fn: (ctx: EffectContext<S>) => unknown, opts?: EffectOptions) => Core<S, C, M>;
+  // Yields each new value of a key; ends when iteration breaks or the module stops
+  watchAsync: <K extends keyof S>(k: K) => AsyncIterableIterator<S[K]>;
   use: <D extends Methods>(d: D) => Core<S, C, M & D>;
   decorate: <K extends string, V>(k: K, v: V) => Core<S, C, M & Record<K, V>>;
   pipe: <N extends string, F extends Fn>(n: N, fn: (c: PipeCtx<S, C, M>) => F) => Core<S, C, M & Record<N, F>>;
   flow: <N extends string, F extends Fn>(n: N, fn: (c: CoreCtx<S, C, M>) => F) => Core<S, C, M & Record<N, F>>;
   start: () => Core<S, C, M>;
+  // Async hooks are awaited by App.start(); with autoStart: false they wait for start()
   onStart: (fn: (c: CoreCtx<S, C, M>) => void) => Core<S, C, M>;
   onStop: (fn: () => void) => Core<S, C, M>;
   stop: () => void;
+  // Child sharing this module's state, config and members, where overrides replace members of
+  // the same name. stop() on it only runs its own onStop hooks and removes its own watchers.
+  scope: <O extends Methods>(overrides?: O) => Core<S, C, Omit<M, keyof O> & O>;
+  // Resolves once persisted state has been hydrated and every async derive, including those
+  // of the modules it uses, has been injected; rejects with the error of a failed factory
+  ready: () => Promise<void>;
 }> & M;
 
 // Add new type alias for public API
 export type AlvamindInstance<S = {}, C = {}, M extends Methods = {}> = Core<S, C, M>;
 
 // Optimized implementation
-const statePool = new WeakMap<object, State<any>>();
+// Keys of listeners registered through watch, used to give listener errors context
+const listenerKeys = new WeakMap<Function, PropertyKey>();
+
+// Updaters whose result replaces the state instead of being merged into it
+const replacements = new WeakSet<StateUpdate<any>>();
+const replacers = new WeakMap<State<any>, (fn: (prev: any) => any) => void>();
+// Queues next as the whole new state, for callers that restore snapshots
+export const replaceState = <T>(state: State<T>, next: T) => replacers.get(state)!(() => next);
+// Like restore, but keys the snapshot lacks keep their current value; used when hydrating, so
+// keys added since the snapshot was stored keep their defaults
+const hydrators = new WeakMap<State<any>, (snapshot: StateSnapshot) => void>();
+export const hydrateState = (state: State<any>, snapshot: StateSnapshot) => hydrators.get(state)!(snapshot);
+
+// The state as it will be once the queued updates commit, before middleware, without committing
+const previews = new WeakMap<State<any>, () => any>();
+export const previewState = <T>(state: State<T>): T => previews.get(state)!();
+
+// How failures outside a commit (reactive watchers, async effects) are reported for each state
+const reporters = new WeakMap<State<any>, (key: PropertyKey | undefined, cause: unknown) => void>();
+const reactiveStates = new WeakSet<State<any>>();
+
+// Which modules each module has used, for cycle detection and App startup order. lazy()
+// dependencies are left out because they are the intended way to break a cycle.
+export type ModuleNode = {
+  name: string;
+  deps: Set<ModuleNode>;
+  // Calls start() and resolves once the module's onStart hooks have finished
+  start: () => Promise<void>;
+  stop: () => void;
+  // Async derives of the module (and of the modules it uses) that have not resolved yet
+  pending: () => Promise<void> | undefined;
+  // Whether onStart hooks already ran on their own, outside of any App's start order
+  eager: () => boolean;
+};
+const moduleNodes = new WeakMap<object, ModuleNode>();
+export const moduleNode = (module: object): ModuleNode | undefined => moduleNodes.get(module);
+// Re-creating a module by name (e.g. on hot reload) returns the cached module but declares its
+// dependencies again through use(), so the edges and cycle mode of the earlier declaration go
+const redeclarations = new WeakMap<ModuleNode, (circular: 'error' | 'warn') => void>();
+
+// Module path from `from` to `to` through use() edges, if there is one
+const findPath = (from: ModuleNode, to: ModuleNode, seen = new Set<ModuleNode>()): string[] | undefined => {
+  if (from === to) return [to.name];
+  if (seen.has(from)) return;
+  seen.add(from);
+  for (const dep of from.deps) {
+    const rest = findPath(dep, to, seen);
+    if (rest) return [from.name, ...rest];
+  }
+};
+
+// Stores that modules opted into sharing, keyed by their sharedState name
+const sharedStates = new Map<string, { state: State<any>; hydrated?: Promise<void> }>();
 // Update methodsCache type to handle generic function types
 const methodsCache = new WeakMap<Function, Methods>();
 
@@ -65,50 +226,359 @@ const methodsCache = new WeakMap<Function, Methods>();
 const moduleCache = new WeakMap<object, any>();
 const moduleKeys = new Map<string, object>();
 
-const createState = <T extends object>(init: T): State<T> => {
-  const cached = statePool.get(init);
-  if (cached) return cached;
+const isPlainObject = (v: unknown): v is Record<PropertyKey, unknown> => {
+  if (v === null || typeof v !== 'object') return false;
+  const proto = Object.getPrototypeOf(v);
+  return proto === Object.prototype || proto === null;
+};
 
+// Copy-on-write helpers: untouched branches keep their references, new nodes are frozen
+const assocIn = (target: any, path: readonly PropertyKey[], value: unknown): any => {
+  if (!path.length) return value;
+  const [key, ...rest] = path;
+  const child = target?.[key];
+  const next = assocIn(child, rest, value);
+  if (target != null && Object.is(child, next)) return target;
+  const copy: any = Array.isArray(target) ? [...target]
+    : target == null && typeof key === 'number' ? []
+    : { ...target };
+  copy[key] = next;
+  return Object.freeze(copy);
+};
+
+const deepMerge = (target: any, patch: any): any => {
+  if (!isPlainObject(target) || !isPlainObject(patch)) return patch;
+  let copy: Record<PropertyKey, unknown> | undefined;
+  for (const key in patch) {
+    const next = deepMerge(target[key], patch[key]);
+    if (Object.is(target[key], next)) continue;
+    copy ??= { ...target };
+    copy[key] = next;
+  }
+  return copy ? Object.freeze(copy) : target;
+};
+
+const migrate = (snapshot: StateSnapshot, { name = 'anonymous', version = 0, migrations = {} }: StateOptions) => {
+  if (!Number.isInteger(snapshot?.version)) {
+    throw new MigrationError(name, NaN, version, 'Snapshot has no valid version');
+  }
+  if (snapshot.version > version) {
+    throw new MigrationError(name, snapshot.version, version,
+      `Snapshot version ${snapshot.version} is newer than state version ${version}`);
+  }
+  let migrated = snapshot.state;
+  for (let v = snapshot.version + 1; v <= version; v++) {
+    const step = migrations[v];
+    if (!step) {
+      throw new MigrationError(name, snapshot.version, version,
+        `Missing migration from version ${v - 1} to ${v} (restoring version ${snapshot.version} into ${version})`);
+    }
+    migrated = step(migrated);
+  }
+  return migrated;
+};
+
+const createState = <T extends object>(init: T, opts: StateOptions<T> = {}): State<T> => {
+  const { name = 'anonymous', schema } = opts;
+  const validate = (next: T) => schema ? validateSync(schema, next, name, 'state') : next;
   const listeners = new Set<StateListener<T>>();
-  let current = Object.freeze({ ...init });
+  let middleware: StateMiddleware<T>[] = [];
+  const streamEnds = new Set<() => void>();
+  const snapshots: StreamSource<T> = (push, end) => {
+    const listener: StateListener<T> = next => push(next);
+    listeners.add(listener);
+    streamEnds.add(end);
+    return () => {
+      listeners.delete(listener);
+      streamEnds.delete(end);
+    };
+  };
+  // Every onPatch subscriber of a commit shares one diff
+  let lastPatch: { next: T; ops: JsonPatchOp[] } | undefined;
+  let current = Object.freeze({ ...validate(init) });
   let batching = false;
-  let updates: Partial<T>[] = [];
+  let depth = 0;
+  let updates: StateUpdate<T>[] = [];
+
+  // Keys that compare equal keep their previous value; if nothing changed the batch is a no-op.
+  // Only keys whose reference changed are compared, so wide states stay cheap to commit.
+  const unchangedKeys = (prev: T, next: T): T => {
+    const before = prev as Record<string, unknown>;
+    const after = next as Record<string, unknown>;
+    const equalities = opts.equals as Record<string, Equality<unknown>> | undefined;
+    let result: Record<string, unknown> | undefined;
+    let changed = false;
+    let count = 0;
+    for (const key in after) {
+      count++;
+      if (!(key in before)) changed = true;
+      else if (Object.is(before[key], after[key])) continue;
+      else if (equalities?.[key]?.(before[key], after[key])) (result ??= { ...after })[key] = before[key];
+      else changed = true;
+    }
+    // Same count with every key present in prev means no key was removed
+    if (!changed && count !== Object.keys(before).length) changed = true;
+    return changed ? (result ?? after) as T : prev;
+  };
+
+  // Listener failures of the current commit, rethrown together once everyone was notified
+  let failures: ListenerError[] = [];
+  let committing = false;
+  const fail = (error: ListenerError) => {
+    failures.push(error);
+    opts.onError?.(error);
+  };
+  const rethrow = () => {
+    const errors = failures;
+    failures = [];
+    if (!errors.length || (opts.onError && !opts.strict)) return;
+    throw errors.length === 1 && !opts.strict
+      ? errors[0]
+      : new AggregateError(errors, `[${name}] ${errors.length} state listener(s) threw`);
+  };
+
+  // Failures of single updates, thrown once the rest of the batch is committed. A batched
+  // commit runs in a microtask with no caller to catch them, so they go to onError if it is set.
+  const reject = (errors: unknown[], deferred: boolean) => {
+    if (!errors.length) return;
+    if (deferred && opts.onError) return errors.forEach(e => opts.onError!(new UpdateError(name, e)));
+    throw errors.length === 1
+      ? errors[0]
+      : new AggregateError(errors, `[${name}] ${errors.length} update(s) failed`);
+  };
+
+  // A throwing listener must not stop the ones after it
+  const notify = (next: T, prev: T) => {
+    listeners.forEach(fn => {
+      try {
+        fn(next, prev);
+      } catch (e) {
+        fail(new ListenerError(name, listenerKeys.get(fn), e));
+      }
+    });
+  };
+
+  // Created on first use and kept in step with each commit
+  const keySignals = new Map<keyof T, Signal<any>>();
+  const signalOf = <K extends keyof T>(key: K): Signal<T[K]> => {
+    let source = keySignals.get(key);
+    if (!source) keySignals.set(key, source = signal(current[key]));
+    return source;
+  };
+  // Reading a key through the view tracks that key's signal. Only reads are tracked, so a
+  // selector that enumerates keys is not re-run when keys are added or removed.
+  const view = new Proxy({} as T, {
+    get: (_, key) => typeof key === 'string' ? signalOf(key as keyof T).get() : Reflect.get(current, key),
+    has: (_, key) => key in current,
+    ownKeys: () => Reflect.ownKeys(current),
+    getOwnPropertyDescriptor: (_, key) => {
+      const desc = Reflect.getOwnPropertyDescriptor(current, key);
+      return desc && { ...desc, writable: true, configurable: true };
+    }
+  });
+
+  const commit = (deferred = false) => {
+    batching = false;
+    if (!updates.length) return;
+    const pending = updates;
+    updates = [];
+    const prev = current;
+    const patch: Record<string, unknown> = {};
+    // Top-level keys that replacing updates dropped
+    const removed = new Set<string>();
+    // An update that throws or fails the schema is left out; the others still commit
+    const failed: unknown[] = [];
+    pending.reduce<T>((acc, upd) => {
+      const replacing = replacements.has(upd);
+      let resolved: Record<string, unknown>;
+      let candidate: T;
+      try {
+        resolved = (typeof upd === 'function' ? upd(acc) : upd) as Record<string, unknown>;
+        candidate = (replacing ? resolved : { ...acc, ...resolved }) as T;
+        if (schema) validate(candidate);
+      } catch (e) {
+        failed.push(e);
+        return acc;
+      }
+      if (!replacing) {
+        for (const key in resolved) removed.delete(key);
+        Object.assign(patch, resolved);
+        return candidate;
+      }
+      // The patch only carries what the replacement changed
+      const before = acc as Record<string, unknown>;
+      for (const key in before) {
+        if (key in resolved) continue;
+        removed.add(key);
+        delete patch[key];
+      }
+      for (const key in resolved) {
+        if (key in before && Object.is(before[key], resolved[key])) continue;
+        patch[key] = resolved[key];
+        removed.delete(key);
+      }
+      return resolved as T;
+    }, current);
+    const chain = middleware;
+    const apply = (p: Partial<T>): T => {
+      const next: Record<string, unknown> = { ...prev, ...p };
+      removed.forEach(key => { if (!(key in p)) delete next[key]; });
+      return next as T;
+    };
+    const dispatch = (i: number) => (p: Partial<T>): T =>
+      i < chain.length ? chain[i](prev, Object.freeze(p), dispatch(i + 1)) : apply(p);
+    const next = unchangedKeys(prev, dispatch(0)(patch as Partial<T>));
+    if (next === prev) return reject(failed, deferred);
+    // Middleware can still produce an invalid state, which drops what is left of the batch
+    let validated: T;
+    try {
+      validated = validate(next);
+    } catch (e) {
+      return reject([...failed, e], deferred);
+    }
+    current = Object.freeze(validated);
+    committing = true;
+    try {
+      batch(() => keySignals.forEach((source, key) => source.set(current[key])));
+    } catch (e) {
+      // Autoruns without their own error handling
+      fail(new ListenerError(name, undefined, e));
+    }
+    notify(current, prev);
+    committing = false;
+    rethrow();
+    reject(failed, deferred);
+  };
+
+  // Commits next as the whole state, dropping keys it does not have, instead of merging it
+  const replace = (fn: (prev: T) => T) => {
+    replacements.add(fn);
+    state.set(fn);
+  };
+
+  // Updates that would be left out of the commit are skipped, like commit does
+  const preview = () => updates.reduce<T>((acc, upd) => {
+    try {
+      const resolved = typeof upd === 'function' ? upd(acc) : upd;
+      const candidate = (replacements.has(upd) ? resolved : { ...acc, ...resolved }) as T;
+      if (schema) validate(candidate);
+      return candidate;
+    } catch {
+      return acc;
+    }
+  }, current);
 
   const state: State<T> = {
     get: () => current,
     set: next => {
       updates.push(next);
-      if (!batching) {
+      if (!batching && !depth) {
         batching = true;
-        queueMicrotask(() => {
-          const prev = current;
-          current = Object.freeze(updates.reduce((acc, upd) => ({ ...acc, ...upd }), current) as T);
-          updates = [];
-          batching = false;
-          if (prev !== current) listeners.forEach(fn => fn(current, prev));
-        });
+        queueMicrotask(() => commit(true));
       }
     },
     get current() { return current; },
     add: fn => void listeners.add(fn),
-    remove: fn => void listeners.delete(fn)
+    remove: fn => void listeners.delete(fn),
+    subscribe: fn => {
+      listeners.add(fn);
+      return () => void listeners.delete(fn);
+    },
+    getSnapshot: () => current,
+    transaction: fn => {
+      const mark = updates.length;
+      depth++;
+      try {
+        return fn();
+      } catch (e) {
+        // Drop only what this transaction queued; earlier pending updates still commit
+        updates.splice(mark);
+        throw e;
+      } finally {
+        if (!--depth) commit();
+      }
+    },
+    flush: () => commit(),
+    setIn: (path, value) => {
+      const [key, ...rest] = path as unknown as PropertyKey[];
+      state.set(prev => ({ [key]: assocIn((prev as any)[key], rest, value) }) as Partial<T>);
+    },
+    merge: patch => state.set(prev => {
+      const next: Record<PropertyKey, unknown> = {};
+      for (const key in patch) next[key] = deepMerge((prev as any)[key], (patch as any)[key]);
+      return next as Partial<T>;
+    }),
+    update: recipe => replace(prev => produce(prev, recipe)),
+    select: (selector, equals = Object.is) => {
+      if (opts.reactive) return computed(() => selector(view), equals).get;
+      let source: T | undefined;
+      let value: any;
+      return () => {
+        if (source === current) return value;
+        const next = selector(current);
+        if (source === undefined || !equals(value, next)) value = next;
+        source = current;
+        return value;
+      };
+    },
+    signal: signalOf,
+    snapshot: () => Object.freeze({ version: opts.version ?? 0, state: current }),
+    restore: snapshot => {
+      const next = migrate(snapshot, opts) as T;
+      state.transaction(() => replace(() => next));
+    },
+    use: fn => {
+      middleware = [...middleware, fn];
+      return () => { middleware = middleware.filter(m => m !== fn); };
+    },
+    onPatch: fn => {
+      const listener: StateListener<T> = (next, prev) => {
+        if (lastPatch?.next !== next) lastPatch = { next, ops: createPatch(prev, next) };
+        if (lastPatch.ops.length) fn(lastPatch.ops);
+      };
+      listeners.add(listener);
+      return () => void listeners.delete(listener);
+    },
+    // Replaces rather than merges, so top-level keys the patch removes are dropped
+    applyPatch: ops => replace(prev => applyPatch(prev, ops) as T),
+    [Symbol.asyncIterator]: () => iterate(snapshots),
+    toObservable: () => observe(snapshots),
+    complete: () => [...streamEnds].forEach(end => end())
   };
 
-  statePool.set(init, state);
+  replacers.set(state, replace);
+  hydrators.set(state, snapshot => {
+    const next = migrate(snapshot, opts) as T;
+    state.transaction(() => replace(prev => ({ ...prev, ...next })));
+  });
+  previews.set(state, preview);
+  reporters.set(state, (key, cause) => {
+    fail(new ListenerError(name, key, cause));
+    // Failures from signal re-runs or async work happen outside a commit and report right away
+    if (!committing) rethrow();
+  });
+  if (opts.reactive) reactiveStates.add(state);
   return state;
 };
 
 const CORE_METHODS = [
-  'state', 'config', 'inject', 'derive', 'watch',
+  'state', 'config', 'inject', 'derive', 'watch', 'watchSelect', 'unwatch', 'watchAsync', 'effect',
   'use', 'decorate', 'pipe', 'flow', 'start',
-  'onStart', 'onStop', 'stop'
+  'onStart', 'onStop', 'stop', 'ready', 'scope'
 ] as const;
 
 const create = <S extends object = {}, C = {}, M extends Methods = {}>(
   state: State<S>,
   config: C,
   id = Date.now(),
-  name?: string
+  name?: string,
+  hydrated?: Promise<void>,
+  circular: 'error' | 'warn' = 'error',
+  autoStart = true,
+  // Members of the parent module when creating a scope
+  inherited?: Map<string, any>,
+  // The state is a sharedState store that other modules use too
+  shared = false
 ): Core<S, C, M> => {
   // Use module key to maintain reference
   if (name) {
@@ -116,12 +586,88 @@ const create = <S extends object = {}, C = {}, M extends Methods = {}>(
     moduleKeys.set(name, moduleKey);
 
     const cached = moduleCache.get(moduleKey);
-    if (cached) return cached;
+    if (cached) {
+      const cachedNode = moduleNodes.get(cached);
+      if (cachedNode) redeclarations.get(cachedNode)?.(circular);
+      return cached;
+    }
   }
 
-  const methods = new Map<string, any>();
+  const methods = new Map<string, any>(inherited);
   const stops: Fn[] = [];
   let started = false;
+  // Watchers this module added through watch/watchSelect: disposer -> user callback
+  const watchers = new Map<() => void, Function>();
+  const addWatcher = (fn: Function, dispose: () => void) => {
+    watchers.set(dispose, fn);
+    return dispose;
+  };
+  // Ends of the watchAsync iterators this module opened
+  const asyncWatchers = new Set<() => void>();
+  const removeWatcher = (dispose: () => void) => {
+    watchers.delete(dispose);
+    dispose();
+  };
+  // Reactive states run watchers as autoruns, so they only wake up for the values they read
+  const report = reporters.get(state)!;
+  const reactive = reactiveStates.has(state);
+  const watchReactive = <R>(read: () => R, fn: (n: R, p: R) => void, equals: Equality<R>, key?: PropertyKey, once?: boolean) => {
+    let last = untracked(read);
+    const dispose: () => void = addWatcher(fn, autorun(() => {
+      const next = read();
+      if (equals(last, next)) return;
+      const prev = last;
+      last = next;
+      if (once) removeWatcher(dispose);
+      untracked(() => fn(next, prev));
+    }, e => report(key, e)));
+    return dispose;
+  };
+  // onStart hooks wait for persisted state and async derives instead of running without them
+  let hydrating = hydrated?.then(() => { hydrating = undefined; });
+  // A failed hydration is reported through ready() and onStart
+  hydrating?.catch(() => { });
+  // onStart hooks held back until start() when the module does not start itself
+  const startHooks: Array<(c: CoreCtx<S, C, M>) => unknown> = [];
+  // Settles once the onStart hooks that have run so far are done
+  let starting: Promise<unknown> | undefined;
+  const startWith = (work: Promise<unknown>) => {
+    starting = work;
+    // Reported by ready() for failed derives and hydration, and by App.start() for hooks
+    work.catch(() => { });
+  };
+  // Async derives and the derives queued behind them, chained in call order. A failure sticks,
+  // so nothing queued after it runs and ready() keeps rejecting with it.
+  let deriving: Promise<void> | undefined;
+  const track = (work: Promise<unknown>) => {
+    const current: Promise<void> = deriving = work.then(() => {
+      if (deriving === current) deriving = undefined;
+    });
+    // Reported through ready()
+    current.catch(() => { });
+  };
+  const settled = async () => {
+    await hydrated;
+    while (deriving) await deriving;
+  };
+
+  const node: ModuleNode | undefined = name ? {
+    name,
+    deps: new Set(),
+    start: async () => {
+      finalInstance.start();
+      await (starting ?? settled());
+    },
+    stop: () => finalInstance.stop(),
+    pending: () => deriving,
+    eager: () => autoStart && started
+  } : undefined;
+  if (node) {
+    redeclarations.set(node, mode => {
+      node.deps.clear();
+      circular = mode;
+    });
+  }
 
   // Track initialization state to prevent circular dependency loops
   let isInitializing = false;
@@ -173,11 +719,73 @@ const create = <S extends object = {}, C = {}, M extends Methods = {}>(
     return merged;
   };
 
-  const coreCtx = () => mergeContexts(baseCtx, Array.from(methods.entries())) as CoreCtx<S, C, M>;
-  const pipeCtx = () => ({
-    ...coreCtx(),
-    pipe: (input: any, ...fns: Array<(arg: any) => any>) => fns.reduce((acc, fn) => fn(acc), input)
-  } as PipeCtx<S, C, M>);
+  // lazy() modules that did not exist yet when they were used. Until they are resolved, the
+  // module and its contexts are wrapped so an unknown member resolves them instead of being undefined.
+  const pendingLazies: object[] = [];
+  let resolvingLazy = false;
+  // use() of a resolved lazy() module, which adds no edge to the cycle check
+  const useResolved = (target: Core<S, C, M>, module: object) => {
+    resolvingLazy = true;
+    try {
+      return target.use(module);
+    } finally {
+      resolvingLazy = false;
+    }
+  };
+  const resolvePending = () => {
+    while (pendingLazies.length) {
+      const module = resolveLazy(pendingLazies[0]);
+      pendingLazies.shift();
+      useResolved(lazyView, module);
+    }
+  };
+  const withLazies = <T extends object>(target: T): T => new Proxy(target, {
+    get: (t, key, receiver) => {
+      if (typeof key !== 'string' || key in t) return Reflect.get(t, key, receiver);
+      // 'then' is probed by await and must not force resolution
+      if (pendingLazies.length && key !== 'then') resolvePending();
+      // Contexts are snapshots, so members that arrived later are read from methods
+      return methods.has(key) ? methods.get(key) : Reflect.get(t, key, receiver);
+    }
+  });
+  let lazyView: any;
+
+  const coreCtx = () => {
+    const ctx = mergeContexts(baseCtx, Array.from(methods.entries())) as CoreCtx<S, C, M>;
+    return pendingLazies.length ? withLazies(ctx) : ctx;
+  };
+  const pipeCtx = () => {
+    const ctx = {
+      ...mergeContexts(baseCtx, Array.from(methods.entries())),
+      pipe: (input: any, ...fns: Array<(arg: any) => any>) => fns.reduce((acc, fn) => fn(acc), input)
+    } as PipeCtx<S, C, M>;
+    return pendingLazies.length ? withLazies(ctx) : ctx;
+  };
+
+  // Injects what a derive factory returns, once it resolves if it is async. Scopes always run
+  // the factory: a cached result would hand one request's members to the next.
+  const cache = inherited ? undefined : methodsCache;
+  const applyDerive = (fn: Function): Promise<void> | undefined => {
+    isInitializing = true;
+    try {
+      const derived = cache?.get(fn) ?? fn(coreCtx());
+      if (typeof derived?.then === 'function') {
+        return Promise.resolve(derived).then(resolved => {
+          cache?.set(fn, resolved);
+          finalInstance.inject(resolved);
+        });
+      }
+      cache?.set(fn, derived);
+      finalInstance.inject(derived);
+    } finally {
+      isInitializing = false;
+    }
+  };
+  const injectDep = (d: Methods) => {
+    pendingDeps.add(name || '');
+    finalInstance.inject(d);
+    pendingDeps.delete(name || '');
+  };
 
   const instance = {
     ...baseCtx,
@@ -192,32 +800,117 @@ const create = <S extends object = {}, C = {}, M extends Methods = {}>(
       });
       return Object.assign(this, Object.fromEntries(methods)) as any as Core<S, C, M & T>;
     },
-    derive<D extends Methods>(this: Core<S, C, M>, fn: (c: CoreCtx<S, C, M>) => D) {
+    derive<D extends Methods>(this: Core<S, C, M>, fn: (c: CoreCtx<S, C, M>) => D | PromiseLike<D>) {
       if (isInitializing) return this as any;
-      isInitializing = true;
-      try {
-        const ctx = coreCtx();
-        const cached = methodsCache.get(fn as Function);
-        const derived = cached ?? fn(ctx);
-        methodsCache.set(fn as Function, derived);
-        const result = this.inject(derived);
-        isInitializing = false;
-        return result;
-      } catch (e) {
-        isInitializing = false;
-        throw e;
+      // Factories behind a pending one see its methods in their context
+      if (deriving) track(deriving.then(() => applyDerive(fn)));
+      else {
+        const pending = applyDerive(fn);
+        if (pending) track(pending);
       }
+      return this as unknown as Core<S, C, M & D>;
     },
-    watch<K extends keyof S>(k: K, fn: (n: S[K], p: S[K]) => void) {
-      state.add((n, p) => n[k] !== p[k] && fn(n[k], p[k]));
+    watch<K extends keyof S>(k: K, fn: (n: S[K], p: S[K]) => void, opts: WatchOptions = {}) {
+      let dispose: () => void;
+      if (reactive) {
+        dispose = watchReactive(state.signal(k).get, fn, Object.is, k, opts.once);
+      } else {
+        const listener: StateListener<S> = (n, p) => {
+          if (n[k] === p[k]) return;
+          if (opts.once) removeWatcher(dispose);
+          fn(n[k], p[k]);
+        };
+        listenerKeys.set(listener, k);
+        dispose = addWatcher(fn, state.subscribe(listener));
+      }
+      if (opts.immediate) {
+        if (opts.once) removeWatcher(dispose);
+        fn(state.get()[k], undefined as S[K]);
+      }
       return this as unknown as Core<S, C, M>;
     },
+    watchSelect<R>(selector: (s: S) => R, fn: (n: R, p: R) => void, opts: WatchOptions & { equals?: Equality<R> } = {}) {
+      const equals = opts.equals ?? Object.is;
+      let dispose: () => void;
+      let initial: R;
+      if (reactive) {
+        const read = state.select(selector, equals);
+        initial = read();
+        dispose = watchReactive(read, fn, equals, undefined, opts.once);
+      } else {
+        let last = initial = selector(state.get());
+        const listener: StateListener<S> = n => {
+          const next = selector(n);
+          if (equals(last, next)) return;
+          const prev = last;
+          last = next;
+          if (opts.once) removeWatcher(dispose);
+          fn(next, prev);
+        };
+        dispose = addWatcher(fn, state.subscribe(listener));
+      }
+      if (opts.immediate) {
+        if (opts.once) removeWatcher(dispose);
+        fn(initial, undefined as R);
+      }
+      return this as unknown as Core<S, C, M>;
+    },
+    unwatch(fn: Fn<any[], unknown>) {
+      watchers.forEach((callback, dispose) => callback === fn && removeWatcher(dispose));
+      return this as unknown as Core<S, C, M>;
+    },
+    effect<K extends keyof S>(keys: K | readonly K[], fn: (ctx: EffectContext<S>) => unknown, opts?: EffectOptions) {
+      stops.push(createEffect(state, Array.isArray(keys) ? keys : [keys as K], fn, opts, e => report(undefined, e)));
+      return this as unknown as Core<S, C, M>;
+    },
+    watchAsync<K extends keyof S>(k: K) {
+      let last = state.get()[k];
+      return iterate<S[K]>((push, end) => {
+        asyncWatchers.add(end);
+        const { unsubscribe } = state.toObservable().subscribe({
+          next: n => { if (n[k] !== last) push(last = n[k]); },
+          complete: end
+        });
+        return () => {
+          asyncWatchers.delete(end);
+          unsubscribe();
+        };
+      });
+    },
     use<D extends Methods>(this: Core<S, C, M>, d: D) {
       if (!d) return this as any;
-      pendingDeps.add(name || '');
-      const result = this.inject(d);
-      pendingDeps.delete(name || '');
-      return result;
+      if (isLazy(d)) {
+        let module: object | undefined;
+        try {
+          module = resolveLazy(d);
+        } catch (e) {
+          if (!(e instanceof ReferenceError)) throw e;
+        }
+        if (module) return useResolved(this, module);
+        pendingLazies.push(d);
+        if (!lazyView) {
+          lazyView = withLazies(instance);
+          if (name) moduleCache.set(moduleKeys.get(name)!, lazyView);
+          if (node) moduleNodes.set(lazyView, node);
+        }
+        return lazyView;
+      }
+      const dep = moduleNodes.get(d);
+      if (node && dep && !resolvingLazy) {
+        const path = findPath(dep, node);
+        if (path) {
+          const error = new CircularDependencyError([node.name, ...path]);
+          if (circular === 'error') throw error;
+          console.warn(`[${node.name}] ${error.message}`);
+        }
+        node.deps.add(dep);
+      }
+      // A provider with async derives is merged in once they resolve; until then this module
+      // is pending too, so derives after this use() wait for it
+      const providing = dep?.pending();
+      if (providing) track(Promise.all([deriving, providing]).then(() => injectDep(d)));
+      else injectDep(d);
+      return this as any;
     },
     decorate<K extends string, V>(k: K, v: V) {
       methods.set(k, v);
@@ -238,11 +931,22 @@ const create = <S extends object = {}, C = {}, M extends Methods = {}>(
         const moduleKey = moduleKeys.get(name)!;
         moduleCache.set(moduleKey, this);
       }
+      if (!autoStart && !started) {
+        started = true;
+        startWith((async () => {
+          await settled();
+          for (const fn of startHooks) await fn(coreCtx());
+        })());
+      }
       return this as unknown as Core<S, C, M>;
     },
-    onStart(fn: (c: CoreCtx<S, C, M>) => void) {
-      if (!started) {
-        fn(coreCtx());
+    onStart(fn: (c: CoreCtx<S, C, M>) => unknown) {
+      if (!autoStart) {
+        startHooks.push(fn);
+        // Hooks added after start() run once the earlier ones are done
+        if (starting) startWith(starting.then(() => fn(coreCtx())));
+      } else if (!started) {
+        startWith(hydrating || deriving ? settled().then(() => fn(coreCtx())) : Promise.resolve(fn(coreCtx())));
         started = true;
       }
       return this as unknown as Core<S, C, M>;
@@ -253,10 +957,30 @@ const create = <S extends object = {}, C = {}, M extends Methods = {}>(
     },
     stop() {
       stops.forEach(fn => fn());
-    }
+      watchers.forEach((_, dispose) => removeWatcher(dispose));
+      asyncWatchers.forEach(end => end());
+      // Streams of a scope's or a shared state belong to the other modules using it as well
+      if (!inherited && !shared) state.complete();
+      // Held-back hooks run again on the next start()
+      if (!autoStart) {
+        started = false;
+        starting = undefined;
+      }
+    },
+    scope<O extends Methods>(overrides?: O) {
+      const child = create<S, C, M>(state, config, Date.now(), undefined, hydrated, circular, true, methods);
+      // Replaced rather than merged like use() does: a scoped value must not pick up parent fields
+      for (const [k, v] of Object.entries(filterCoreMethods(overrides ?? {}))) {
+        child.decorate(k, v);
+      }
+      return child as unknown as Core<S, C, Omit<M, keyof O> & O>;
+    },
+    ready: settled
   } as unknown as Instance<S, C, M>;
+  if (inherited) Object.assign(instance, Object.fromEntries(inherited));
 
   const finalInstance = instance as unknown as Core<S, C, M>;
+  if (node) moduleNodes.set(finalInstance, node);
 
   // Cache using WeakMap
   if (name) {
@@ -267,12 +991,73 @@ const create = <S extends object = {}, C = {}, M extends Methods = {}>(
   return finalInstance;
 };
 
-export default <S extends object = {}, C = {}>(opts: { name: string; state?: S; config?: C }): Core<S, C> => {
+export type AlvamindOptions<S, C> = {
+  name: string;
+  state?: S;
+  config?: C;
+  // Storage adapter (or adapter with options) used to hydrate and save the module state
+  persist?: PersistAdapter | PersistOptions;
+  // Schema version of the state, stamped on snapshots
+  version?: number;
+  migrations?: Migrations;
+  // Standard Schema validators (zod, valibot, arktype, ...) for the state and config
+  schema?: {
+    state?: StandardSchemaV1<unknown, S>;
+    config?: StandardSchemaV1<unknown, C>;
+  };
+  // Every module state is private unless modules opt into sharing one store under the same key
+  sharedState?: string;
+  // Called when a watcher or state listener throws, with the module name and watched key, and
+  // when an update fails in a batched commit
+  onError?: (error: ListenerError | UpdateError) => void;
+  // Rethrow listener failures as an AggregateError even when onError is set
+  strict?: boolean;
+  // Custom per-key equality; updates where every key compares equal notify no one
+  equals?: StateEquality<S>;
+  // Use the signals engine: select, watch and watchSelect only re-run when the keys they read change
+  reactive?: boolean;
+  // What use() does when it would close a dependency cycle: throw a CircularDependencyError
+  // (default) or only log a warning, for codebases that still rely on cycles
+  circular?: 'error' | 'warn';
+  // Run onStart hooks as soon as they are registered (default). When false they are held
+  // until start(), so an App can start modules after their dependencies
+  autoStart?: boolean;
+};
+
+export default <S extends object = {}, C = {}>(opts: AlvamindOptions<S, C>): Core<S, C> => {
   if (!opts.name) throw new Error('Name required');
-  return create(
-    createState(opts.state ?? {} as S),
-    opts.config ?? {} as C,
+  const config = opts.config ?? {} as C;
+  const shared = opts.sharedState ? sharedStates.get(opts.sharedState) : undefined;
+
+  // Joining a shared store reuses it as-is: the creating module's state options win
+  let persistence: ReturnType<typeof persistState> | undefined;
+  const state: State<S> = shared?.state ?? createState(opts.state ?? {} as S, {
+    name: opts.name,
+    version: opts.version,
+    migrations: opts.migrations,
+    schema: opts.schema?.state,
+    onError: opts.onError,
+    strict: opts.strict,
+    equals: opts.equals,
+    reactive: opts.reactive
+  });
+  if (!shared) {
+    const persist = opts.persist && ('adapter' in opts.persist ? opts.persist : { adapter: opts.persist });
+    persistence = persist && persistState(state, { key: persistKey(opts.name), ...persist });
+    if (opts.sharedState) sharedStates.set(opts.sharedState, { state, hydrated: persistence?.hydrated });
+  }
+
+  const core = create<S, C>(
+    state,
+    opts.schema?.config ? validateSync(opts.schema.config, config, opts.name, 'config') : config,
     Date.now(),
-    opts.name
+    opts.name,
+    shared ? shared.hydrated : persistence?.hydrated,
+    opts.circular,
+    opts.autoStart,
+    undefined,
+    !!opts.sharedState
   );
+  // Nobody awaits stop(); a hydration failure was reported through ready() already
+  return persistence ? core.onStop(() => void persistence.dispose().catch(() => { })) : core;
 };
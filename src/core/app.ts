@@ -0,0 +1,87 @@
+// Application container. Modules still wire themselves with use(); the App reads those
+// relations to start every module after the modules it uses, and to stop them in reverse.
+import { moduleNode, type ModuleNode } from './alvamind-core';
+import { StartError } from './errors';
+
+export type App = Readonly<{
+  // Dependencies of registered modules are started too, registered or not. Modules whose
+  // onStart hooks already ran, because they were not created with autoStart: false, are refused.
+  register: (...modules: object[]) => App;
+  // Starts one module at a time in dependency order, awaiting async onStart hooks. If one
+  // fails, it and the modules started before it are stopped and a StartError is thrown.
+  // Calling it again only starts modules registered since.
+  start: () => Promise<void>;
+  // Waits for a start in progress, then stops the started modules in reverse order
+  stop: () => Promise<void>;
+  // Module names in start order
+  order: () => string[];
+}>;
+
+export const createApp = (...initial: object[]): App => {
+  const registered: ModuleNode[] = [];
+  let started: ModuleNode[] = [];
+  let starting: Promise<void> | undefined;
+
+  // Depth-first post-order, so every module comes after the modules it uses. Cycles can only
+  // exist in circular: 'warn' mode; the edge closing one is skipped.
+  const sort = (roots = registered) => {
+    const sorted: ModuleNode[] = [];
+    const seen = new Set<ModuleNode>();
+    const visit = (node: ModuleNode) => {
+      if (seen.has(node)) return;
+      seen.add(node);
+      node.deps.forEach(visit);
+      sorted.push(node);
+    };
+    roots.forEach(visit);
+    return sorted;
+  };
+
+  // A module that started itself would break the order its dependents rely on
+  const checkOrder = (roots = registered) => {
+    const eager = sort(roots).find(node => node.eager());
+    if (eager) {
+      throw new TypeError(`[${eager.name}] onStart hooks already ran; create App modules with autoStart: false`);
+    }
+  };
+
+  const stopAll = () => {
+    const nodes = started;
+    started = [];
+    nodes.reverse().forEach(node => node.stop());
+  };
+
+  const app: App = {
+    register: (...modules) => {
+      const nodes = modules.map(module => {
+        const node = moduleNode(module);
+        if (!node) throw new TypeError('App.register() only accepts Alvamind modules');
+        return node;
+      });
+      checkOrder(nodes);
+      nodes.forEach(node => registered.includes(node) || registered.push(node));
+      return app;
+    },
+    start: () => starting = (starting ?? Promise.resolve()).catch(() => {}).then(async () => {
+      // Hooks may have been added since the modules were registered
+      checkOrder();
+      for (const node of sort()) {
+        if (started.includes(node)) continue;
+        started.push(node);
+        try {
+          await node.start();
+        } catch (cause) {
+          stopAll();
+          throw new StartError(node.name, cause);
+        }
+      }
+    }),
+    stop: async () => {
+      await starting?.catch(() => {});
+      starting = undefined;
+      stopAll();
+    },
+    order: () => sort().map(node => node.name)
+  };
+  return app.register(...initial);
+};
@@ -0,0 +1,130 @@
+// Copy-on-write drafts, Immer style. A draft proxies the original objects and only copies
+// an object (and its parents) the first time it is written to; everything untouched is
+// shared with the base. Drafts are revoked once produce returns.
+
+export type Draft<T> = T extends (...args: any[]) => any ? T
+  : T extends ReadonlyArray<infer E> ? Draft<E>[]
+  : T extends object ? { -readonly [K in keyof T]: Draft<T[K]> }
+  : T;
+
+type DraftState = {
+  base: any;
+  copy: any;
+  parent?: DraftState;
+  children: Map<PropertyKey, any>;
+  modified: boolean;
+  // Result of finalize, kept because a draft can be reached from several places
+  finalized?: any;
+};
+
+const DRAFT_STATE = Symbol('alvamind.draft');
+
+const isDraftable = (v: unknown): v is object => {
+  if (Array.isArray(v)) return true;
+  if (v === null || typeof v !== 'object') return false;
+  const proto = Object.getPrototypeOf(v);
+  return proto === Object.prototype || proto === null;
+};
+
+const stateOf = (v: any): DraftState | undefined => v?.[DRAFT_STATE];
+const latest = (s: DraftState) => s.copy ?? s.base;
+
+const markChanged = (s: DraftState) => {
+  if (s.modified) return;
+  s.modified = true;
+  s.copy = Array.isArray(s.base) ? [...s.base] : { ...s.base };
+  if (s.parent) markChanged(s.parent);
+};
+
+const createDraft = (base: object, revokes: Array<() => void>, parent?: DraftState) => {
+  const s: DraftState = { base, copy: undefined, parent, children: new Map(), modified: false };
+
+  // The proxy target is a blank stand-in: the base is usually frozen, and proxy invariants
+  // would forbid handing out drafts for a frozen target's properties
+  const { proxy, revoke } = Proxy.revocable(Array.isArray(base) ? [] : {}, {
+    get: (_, prop) => {
+      if (prop === DRAFT_STATE) return s;
+      const source = latest(s);
+      const value = Reflect.get(source, prop);
+      if (!Object.hasOwn(source, prop) || !isDraftable(value) || value !== s.base[prop]) return value;
+      let child = s.children.get(prop);
+      if (!child) {
+        child = createDraft(value, revokes, s);
+        s.children.set(prop, child);
+      }
+      return child;
+    },
+    set: (_, prop, value) => {
+      const source = latest(s);
+      const unchanged = Object.hasOwn(source, prop)
+        && (Object.is(source[prop], value) || value === s.children.get(prop));
+      if (unchanged) return true;
+      markChanged(s);
+      s.copy[prop] = value;
+      if (value !== s.children.get(prop)) s.children.delete(prop);
+      return true;
+    },
+    deleteProperty: (_, prop) => {
+      if (!Object.hasOwn(latest(s), prop)) return true;
+      markChanged(s);
+      delete s.copy[prop];
+      s.children.delete(prop);
+      return true;
+    },
+    has: (_, prop) => prop in latest(s),
+    ownKeys: () => Reflect.ownKeys(latest(s)),
+    getOwnPropertyDescriptor: (_, prop) => {
+      const desc = Reflect.getOwnPropertyDescriptor(latest(s), prop);
+      if (!desc) return desc;
+      // An array target's own `length` is non-configurable and must be reported as such
+      return {
+        value: desc.value,
+        writable: true,
+        enumerable: desc.enumerable,
+        configurable: !(Array.isArray(s.base) && prop === 'length')
+      };
+    },
+    defineProperty: () => {
+      throw new TypeError('defineProperty is not supported on state drafts');
+    },
+    getPrototypeOf: () => Object.getPrototypeOf(s.base)
+  });
+  revokes.push(revoke);
+  return proxy;
+};
+
+// Fresh objects assigned into a draft may still contain drafts; swap them for final values
+const finalizeValue = (value: any, seen: Set<object>): any => {
+  const s = stateOf(value);
+  if (s) return finalize(s, seen);
+  if (!isDraftable(value) || Object.isFrozen(value) || seen.has(value)) return value;
+  seen.add(value);
+  for (const key of Object.keys(value)) (value as any)[key] = finalizeValue((value as any)[key], seen);
+  return Object.freeze(value);
+};
+
+const finalize = (s: DraftState, seen: Set<object>): any => {
+  if (!s.modified) return s.base;
+  if (s.finalized) return s.finalized;
+  const copy = s.finalized = s.copy;
+  for (const key of Object.keys(copy)) {
+    const value = copy[key];
+    const child = s.children.get(key);
+    copy[key] = child && stateOf(child)!.base === value
+      ? finalize(stateOf(child)!, seen)
+      : finalizeValue(value, seen);
+  }
+  return Object.freeze(copy);
+};
+
+// Returning a value from the recipe replaces the state instead of using the draft
+export const produce = <T extends object>(base: T, recipe: (draft: Draft<T>) => void | T): T => {
+  const revokes: Array<() => void> = [];
+  const draft = createDraft(base, revokes);
+  try {
+    const result = recipe(draft as Draft<T>);
+    return result !== undefined && result !== draft ? result : finalize(stateOf(draft)!, new Set());
+  } finally {
+    revokes.forEach(revoke => revoke());
+  }
+};
@@ -0,0 +1,91 @@
+// Side effects driven by state changes, optionally debounced or throttled. Each run gets an
+// AbortSignal that is aborted when a newer run starts or the effect is disposed.
+import type { State, StateListener } from './alvamind-core';
+
+export type EffectContext<S> = Readonly<{
+  state: S;
+  // Snapshot from before the first change that led to this run
+  prev: S;
+  signal: AbortSignal;
+}>;
+
+export type EffectOptions = {
+  // Wait until changes stop for this many milliseconds
+  debounce?: number;
+  // Run at most once per this many milliseconds
+  throttle?: number;
+  // Run on the first change of a burst; defaults to false when debouncing, true when throttling
+  leading?: boolean;
+  // Run after the burst with the latest state; defaults to true
+  trailing?: boolean;
+};
+
+export const createEffect = <S>(
+  state: State<S>,
+  keys: readonly (keyof S)[],
+  fn: (ctx: EffectContext<S>) => unknown,
+  { debounce, throttle, leading = throttle !== undefined && debounce === undefined, trailing = true }: EffectOptions = {},
+  // Receives failed runs, sync or async; without it they are rethrown
+  onError: (error: unknown) => void = e => { throw e; }
+): (() => void) => {
+  let controller: AbortController | undefined;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  // prev of the first change not yet handled by a run
+  let since: S | undefined;
+
+  const run = () => {
+    const prev = since!;
+    since = undefined;
+    controller?.abort();
+    const current = controller = new AbortController();
+    let result: unknown;
+    try {
+      result = fn({ state: state.get(), prev, signal: current.signal });
+    } catch (e) {
+      // Debounced and throttled runs happen in a timer, where a throw would go uncaught
+      return onError(e);
+    }
+    // Rejections caused by cancelling a stale run are expected; anything else is reported
+    if (result instanceof Promise) result.catch(e => { if (!current.signal.aborted) onError(e); });
+  };
+
+  const throttleTick = () => {
+    timer = undefined;
+    if (!since) return;
+    if (trailing) {
+      run();
+      timer = setTimeout(throttleTick, throttle);
+    } else {
+      since = undefined;
+    }
+  };
+
+  const listener: StateListener<S> = (next, prev) => {
+    if (!keys.some(k => next[k] !== prev[k])) return;
+    since ??= prev;
+
+    if (debounce !== undefined) {
+      const first = !timer;
+      clearTimeout(timer);
+      if (first && leading) run();
+      timer = setTimeout(() => {
+        timer = undefined;
+        if (since && trailing) run();
+        since = undefined;
+      }, debounce);
+    } else if (throttle !== undefined) {
+      if (timer) return;
+      if (leading) run();
+      timer = setTimeout(throttleTick, throttle);
+    } else {
+      run();
+    }
+  };
+
+  state.add(listener);
+  return () => {
+    state.remove(listener);
+    clearTimeout(timer);
+    controller?.abort();
+  };
+};
@@ -0,0 +1,135 @@
+// Normalized record collections kept under one key of a module's State as { ids, entities }.
+// Writes go through state.set, so they batch with other updates; selectors are memoized on
+// the collection snapshot and keep returning the same array until it changes.
+import type { State } from './alvamind-core';
+
+export type EntityId = string | number;
+
+export type EntityState<E, Id extends EntityId = string> = Readonly<{
+  ids: readonly Id[];
+  entities: Readonly<Record<Id, E>>;
+}>;
+
+export type EntityUpdate<E, Id extends EntityId = string> = Readonly<{ id: Id; changes: Partial<E> }>;
+
+type EntityOf<V> = V extends EntityState<infer E, any> ? E : never;
+type IdOf<V> = V extends EntityState<any, infer Id> ? Id : never;
+
+export type EntityConfig<T, K extends keyof T> = {
+  state: State<T>;
+  // State key holding the collection, usually initialised with emptyEntities()
+  key: K;
+  // Defaults to entity.id
+  selectId?: (entity: EntityOf<T[K]>) => IdOf<T[K]>;
+  // Keeps ids sorted by entity; without it ids stay in insertion order
+  sortComparer?: (a: EntityOf<T[K]>, b: EntityOf<T[K]>) => number;
+};
+
+export type EntityAdapter<E, Id extends EntityId> = Readonly<{
+  // Existing ids are left untouched
+  addOne: (entity: E) => void;
+  addMany: (entities: readonly E[]) => void;
+  // Existing entities are shallow-merged with the new values
+  upsertOne: (entity: E) => void;
+  upsertMany: (entities: readonly E[]) => void;
+  // Unknown ids are ignored
+  updateOne: (update: EntityUpdate<E, Id>) => void;
+  updateMany: (updates: readonly EntityUpdate<E, Id>[]) => void;
+  removeOne: (id: Id) => void;
+  removeMany: (ids: readonly Id[]) => void;
+  // Replaces the whole collection
+  setAll: (entities: readonly E[]) => void;
+  removeAll: () => void;
+  selectIds: () => readonly Id[];
+  selectEntities: () => Readonly<Record<Id, E>>;
+  selectAll: () => readonly E[];
+  selectById: (id: Id) => E | undefined;
+  selectTotal: () => number;
+}>;
+
+export const emptyEntities = <E, Id extends EntityId = string>(): EntityState<E, Id> =>
+  Object.freeze({ ids: Object.freeze([]), entities: Object.freeze({}) as Record<Id, E> });
+
+export const entities = <T, K extends keyof T>(
+  config: EntityConfig<T, K>
+): EntityAdapter<EntityOf<T[K]>, IdOf<T[K]>> => {
+  type E = EntityOf<T[K]>;
+  type Id = IdOf<T[K]>;
+  const { state, key, sortComparer } = config;
+  const selectId = config.selectId ?? ((entity: E) => (entity as { id: Id }).id);
+  const slice = () => state.get()[key] as EntityState<E, Id>;
+
+  // fn edits copies of ids/entities and reports whether anything changed
+  const write = (fn: (ids: Id[], entities: Record<Id, E>) => boolean) => state.set(prev => {
+    const current = prev[key] as EntityState<E, Id>;
+    const ids = [...current.ids];
+    const entities = { ...current.entities } as Record<Id, E>;
+    if (!fn(ids, entities)) return {};
+    if (sortComparer) ids.sort((a, b) => sortComparer(entities[a], entities[b]));
+    const next = Object.freeze({ ...current, ids: Object.freeze(ids), entities: Object.freeze(entities) });
+    return { [key]: next } as unknown as Partial<T>;
+  });
+
+  const insert = (ids: Id[], entities: Record<Id, E>, entity: E, merge: boolean) => {
+    const id = selectId(entity);
+    if (!Object.hasOwn(entities, id)) {
+      ids.push(id);
+      entities[id] = entity;
+      return true;
+    }
+    if (!merge) return false;
+    entities[id] = Object.assign({}, entities[id], entity);
+    return true;
+  };
+
+  const update = (ids: Id[], entities: Record<Id, E>, { id, changes }: EntityUpdate<E, Id>) => {
+    if (!Object.hasOwn(entities, id)) return false;
+    const next: E = Object.assign({}, entities[id], changes);
+    const nextId = selectId(next);
+    if (nextId !== id) {
+      delete entities[id];
+      // Renaming onto an existing id replaces that record in its slot, so the id is not listed twice
+      if (Object.hasOwn(entities, nextId)) ids.splice(ids.indexOf(id), 1);
+      else ids[ids.indexOf(id)] = nextId;
+    }
+    entities[nextId] = next;
+    return true;
+  };
+
+  const remove = (ids: Id[], entities: Record<Id, E>, removed: readonly Id[]) => {
+    const gone = new Set(removed.filter(id => Object.hasOwn(entities, id)));
+    if (!gone.size) return false;
+    gone.forEach(id => delete entities[id]);
+    const kept = ids.filter(id => !gone.has(id));
+    ids.splice(0, ids.length, ...kept);
+    return true;
+  };
+
+  let cache: { source: EntityState<E, Id>; all: readonly E[] } | undefined;
+
+  return {
+    addOne: entity => write((ids, entities) => insert(ids, entities, entity, false)),
+    addMany: list => write((ids, entities) => list.map(e => insert(ids, entities, e, false)).some(Boolean)),
+    upsertOne: entity => write((ids, entities) => insert(ids, entities, entity, true)),
+    upsertMany: list => write((ids, entities) => list.map(e => insert(ids, entities, e, true)).some(Boolean)),
+    updateOne: change => write((ids, entities) => update(ids, entities, change)),
+    updateMany: changes => write((ids, entities) => changes.map(c => update(ids, entities, c)).some(Boolean)),
+    removeOne: id => write((ids, entities) => remove(ids, entities, [id])),
+    removeMany: list => write((ids, entities) => remove(ids, entities, list)),
+    setAll: list => write((ids, entities) => {
+      remove(ids, entities, [...ids]);
+      list.forEach(e => insert(ids, entities, e, true));
+      return true;
+    }),
+    removeAll: () => write((ids, entities) => remove(ids, entities, [...ids])),
+    selectIds: () => slice().ids,
+    selectEntities: () => slice().entities,
+    selectAll: () => {
+      const source = slice();
+      if (cache?.source !== source) cache = { source, all: Object.freeze(source.ids.map(id => source.entities[id])) };
+      return cache.all;
+    },
+    selectById: id => Object.hasOwn(slice().entities, id) ? slice().entities[id] : undefined,
+    selectTotal: () => slice().ids.length
+  };
+};
@@ -0,0 +1,101 @@
+// Errors raised from module state carry the module name so they can be traced back in multi-module apps
+import type { StandardIssue, ValidationTarget } from './schema';
+
+const formatPath = (path: StandardIssue['path']) =>
+  path?.length
+    ? path.map(seg => String(typeof seg === 'object' ? seg.key : seg)).join('.')
+    : '(root)';
+
+export class MigrationError extends Error {
+  constructor(
+    readonly module: string,
+    readonly from: number,
+    readonly to: number,
+    message: string
+  ) {
+    super(`[${module}] ${message}`);
+    this.name = 'MigrationError';
+  }
+}
+
+export class ValidationError extends Error {
+  readonly path: string;
+
+  constructor(
+    readonly module: string,
+    readonly target: ValidationTarget,
+    readonly issues: ReadonlyArray<StandardIssue>
+  ) {
+    const path = formatPath(issues[0]?.path);
+    super(`[${module}] Invalid ${target} at ${path}: ${issues[0]?.message ?? 'validation failed'}`);
+    this.name = 'ValidationError';
+    this.path = path;
+  }
+}
+
+export class JsonPatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JsonPatchError';
+  }
+}
+
+export class ListenerError extends Error {
+  constructor(
+    readonly module: string,
+    // State key the failing watcher observed, if it was registered through watch
+    readonly key: PropertyKey | undefined,
+    readonly cause: unknown
+  ) {
+    const target = key === undefined ? 'State listener' : `Watcher for "${String(key)}"`;
+    super(`[${module}] ${target} threw: ${cause instanceof Error ? cause.message : String(cause)}`);
+    this.name = 'ListenerError';
+  }
+}
+
+// An update left out of a batched commit, passed to onError because no caller can catch it.
+// Shaped like a ListenerError so the same handler takes both.
+export class UpdateError extends Error {
+  readonly key = undefined;
+
+  constructor(
+    readonly module: string,
+    readonly cause: unknown
+  ) {
+    const message = cause instanceof Error ? cause.message : String(cause);
+    const prefix = `[${module}] `;
+    super(`${prefix}Update rejected: ${message.startsWith(prefix) ? message.slice(prefix.length) : message}`);
+    this.name = 'UpdateError';
+  }
+}
+
+export class TransitionError extends Error {
+  constructor(
+    readonly from: string,
+    readonly event: string,
+    message: string
+  ) {
+    super(message);
+    this.name = 'TransitionError';
+  }
+}
+
+export class CircularDependencyError extends Error {
+  constructor(
+    // Module names from the module that closed the cycle back to itself
+    readonly path: readonly string[]
+  ) {
+    super(`Circular dependency: ${path.join(' -> ')}`);
+    this.name = 'CircularDependencyError';
+  }
+}
+
+export class StartError extends Error {
+  constructor(
+    readonly module: string,
+    readonly cause: unknown
+  ) {
+    super(`[${module}] Failed to start: ${cause instanceof Error ? cause.message : String(cause)}`);
+    this.name = 'StartError';
+  }
+}
@@ -0,0 +1,51 @@
+// Adapters from State to the store contracts UI frameworks expect
+import type { Equality, State } from './alvamind-core';
+
+// React's useSyncExternalStore contract
+export type ExternalStore<T> = Readonly<{
+  subscribe: (onStoreChange: () => void) => () => void;
+  getSnapshot: () => T;
+}>;
+
+// Svelte's store contract: run is called immediately, then on every change
+export type Readable<T> = Readonly<{
+  subscribe: (run: (value: T) => void, invalidate?: () => void) => () => void;
+}>;
+
+const identity = <T>(v: T) => v;
+
+// getSnapshot keeps returning the same reference while the selected value is equal,
+// and subscribers are only told about changes to that value
+export const selectStore = <T, R>(
+  state: State<T>,
+  selector: (s: T) => R,
+  equals?: Equality<R>
+): ExternalStore<R> => {
+  const getSnapshot = state.select(selector, equals);
+  return {
+    getSnapshot,
+    subscribe: onStoreChange => {
+      let last = getSnapshot();
+      return state.subscribe(() => {
+        const next = getSnapshot();
+        if (next === last) return;
+        last = next;
+        onStoreChange();
+      });
+    }
+  };
+};
+
+export const svelteStore = <T, R = T>(
+  state: State<T>,
+  selector: (s: T) => R = identity as (s: T) => R,
+  equals?: Equality<R>
+): Readable<R> => {
+  const store = selectStore(state, selector, equals);
+  return {
+    subscribe: run => {
+      run(store.getSnapshot());
+      return store.subscribe(() => run(store.getSnapshot()));
+    }
+  };
+};
@@ -0,0 +1,156 @@
+// RFC 6902 JSON Patch for immutable state. createPatch relies on structural sharing:
+// branches that kept their reference are skipped without being walked.
+import { JsonPatchError } from './errors';
+
+export type JsonPatchOp =
+  | Readonly<{ op: 'add'; path: string; value: unknown }>
+  | Readonly<{ op: 'remove'; path: string }>
+  | Readonly<{ op: 'replace'; path: string; value: unknown }>
+  | Readonly<{ op: 'move'; from: string; path: string }>
+  | Readonly<{ op: 'copy'; from: string; path: string }>
+  | Readonly<{ op: 'test'; path: string; value: unknown }>;
+
+type Token = string;
+
+const isRecord = (v: unknown): v is Record<string, unknown> =>
+  v !== null && typeof v === 'object' && !Array.isArray(v) && Object.getPrototypeOf(v) === Object.prototype;
+
+const escapeToken = (k: string | number) => String(k).replace(/~/g, '~0').replace(/\//g, '~1');
+const unescapeToken = (t: string) => t.replace(/~1/g, '/').replace(/~0/g, '~');
+
+const parsePointer = (pointer: string): Token[] => {
+  if (pointer === '') return [];
+  if (!pointer.startsWith('/')) throw new JsonPatchError(`Invalid JSON pointer "${pointer}"`);
+  return pointer.slice(1).split('/').map(unescapeToken);
+};
+
+// undefined is treated as absent, matching what JSON.stringify would send over the wire
+export const createPatch = (prev: unknown, next: unknown, path = '', ops: JsonPatchOp[] = []): JsonPatchOp[] => {
+  if (Object.is(prev, next)) return ops;
+  if (Array.isArray(prev) && Array.isArray(next)) {
+    const common = Math.min(prev.length, next.length);
+    for (let i = 0; i < common; i++) createPatch(prev[i], next[i], `${path}/${i}`, ops);
+    for (let i = prev.length - 1; i >= next.length; i--) ops.push({ op: 'remove', path: `${path}/${i}` });
+    for (let i = prev.length; i < next.length; i++) ops.push({ op: 'add', path: `${path}/${i}`, value: next[i] });
+    return ops;
+  }
+  if (isRecord(prev) && isRecord(next)) {
+    for (const key in prev) {
+      if (prev[key] !== undefined && next[key] === undefined) ops.push({ op: 'remove', path: `${path}/${escapeToken(key)}` });
+    }
+    for (const key in next) {
+      if (next[key] === undefined) continue;
+      const child = `${path}/${escapeToken(key)}`;
+      if (prev[key] === undefined) ops.push({ op: 'add', path: child, value: next[key] });
+      else createPatch(prev[key], next[key], child, ops);
+    }
+    return ops;
+  }
+  ops.push({ op: 'replace', path, value: next });
+  return ops;
+};
+
+const deepEqual = (a: unknown, b: unknown): boolean => {
+  if (Object.is(a, b)) return true;
+  if (Array.isArray(a) && Array.isArray(b)) return a.length === b.length && a.every((v, i) => deepEqual(v, b[i]));
+  if (isRecord(a) && isRecord(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every(k => k in b && deepEqual(a[k], b[k]));
+  }
+  return false;
+};
+
+const toIndex = (arr: readonly unknown[], token: Token, pointer: string, allowEnd: boolean) => {
+  if (allowEnd && token === '-') return arr.length;
+  const index = /^(0|[1-9]\d*)$/.test(token) ? Number(token) : NaN;
+  if (Number.isNaN(index) || index > arr.length || (!allowEnd && index === arr.length)) {
+    throw new JsonPatchError(`Array index "${token}" out of range at "${pointer}"`);
+  }
+  return index;
+};
+
+const getAt = (doc: any, tokens: Token[], pointer: string) => tokens.reduce((node, token) => {
+  if (Array.isArray(node)) return node[toIndex(node, token, pointer, false)];
+  if (node !== null && typeof node === 'object' && Object.hasOwn(node, token)) return node[token];
+  throw new JsonPatchError(`Path "${pointer}" does not exist`);
+}, doc);
+
+// Rebuilds only the containers along the path, freezing the copies like committed state
+const updateParent = (doc: any, tokens: Token[], pointer: string, fn: (parent: any, key: Token) => any): any => {
+  if (tokens.length === 1) return Object.freeze(fn(doc, tokens[0]));
+  const [head, ...rest] = tokens;
+  const copy: any = Array.isArray(doc) ? [...doc] : { ...doc };
+  const key = Array.isArray(doc) ? toIndex(doc, head, pointer, false) : head;
+  if (!Array.isArray(doc) && (doc === null || typeof doc !== 'object' || !Object.hasOwn(doc, head))) {
+    throw new JsonPatchError(`Path "${pointer}" does not exist`);
+  }
+  copy[key] = updateParent(doc[key], rest, pointer, fn);
+  return Object.freeze(copy);
+};
+
+const add = (doc: unknown, pointer: string, value: unknown) => {
+  const tokens = parsePointer(pointer);
+  if (!tokens.length) return value;
+  return updateParent(doc, tokens, pointer, (parent, key) => {
+    if (Array.isArray(parent)) {
+      const copy = [...parent];
+      copy.splice(toIndex(parent, key, pointer, true), 0, value);
+      return copy;
+    }
+    if (parent === null || typeof parent !== 'object') throw new JsonPatchError(`Path "${pointer}" does not exist`);
+    return { ...parent, [key]: value };
+  });
+};
+
+const remove = (doc: unknown, pointer: string) => {
+  const tokens = parsePointer(pointer);
+  if (!tokens.length) throw new JsonPatchError('Cannot remove the document root');
+  return updateParent(doc, tokens, pointer, (parent, key) => {
+    if (Array.isArray(parent)) {
+      const copy = [...parent];
+      copy.splice(toIndex(parent, key, pointer, false), 1);
+      return copy;
+    }
+    if (parent === null || typeof parent !== 'object' || !Object.hasOwn(parent, key)) {
+      throw new JsonPatchError(`Path "${pointer}" does not exist`);
+    }
+    const { [key]: _removed, ...rest } = parent;
+    return rest;
+  });
+};
+
+const replace = (doc: unknown, pointer: string, value: unknown) => {
+  const tokens = parsePointer(pointer);
+  if (!tokens.length) return value;
+  getAt(doc, tokens, pointer);
+  return updateParent(doc, tokens, pointer, (parent, key) => {
+    const copy: any = Array.isArray(parent) ? [...parent] : { ...parent };
+    copy[Array.isArray(parent) ? toIndex(parent, key, pointer, false) : key] = value;
+    return copy;
+  });
+};
+
+const applyOp = (doc: unknown, op: JsonPatchOp): unknown => {
+  switch (op.op) {
+    case 'add': return add(doc, op.path, op.value);
+    case 'remove': return remove(doc, op.path);
+    case 'replace': return replace(doc, op.path, op.value);
+    case 'move': {
+      if (op.path.startsWith(`${op.from}/`)) throw new JsonPatchError(`Cannot move "${op.from}" into its own child`);
+      const value = getAt(doc, parsePointer(op.from), op.from);
+      return add(remove(doc, op.from), op.path, value);
+    }
+    case 'copy': return add(doc, op.path, getAt(doc, parsePointer(op.from), op.from));
+    case 'test':
+      if (!deepEqual(getAt(doc, parsePointer(op.path), op.path), op.value)) {
+        throw new JsonPatchError(`Test failed at "${op.path}"`);
+      }
+      return doc;
+    default:
+      throw new JsonPatchError(`Unknown operation "${(op as { op: string }).op}"`);
+  }
+};
+
+// Ops are applied in order; if any fails the original document is left untouched
+export const applyPatch = <T>(doc: T, ops: readonly JsonPatchOp[]): T =>
+  ops.reduce<unknown>(applyOp, doc) as T;
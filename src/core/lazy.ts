@@ -0,0 +1,42 @@
+// Deferred module references for genuinely mutual dependencies. lazy(() => other) stands in
+// for a module that may not exist yet; its members are looked up on first access, and
+// use(lazy(...)) keeps the dependency pending until one of its members is needed.
+
+const resolvers = new WeakMap<object, () => object>();
+
+export const lazy = <T extends object>(factory: () => T): T => {
+  let resolved: T | undefined;
+  const resolve = (): T => {
+    if (resolved) return resolved;
+    let module: T;
+    try {
+      module = factory();
+    } catch (e) {
+      // A const that is still in its temporal dead zone
+      if (e instanceof ReferenceError) throw new ReferenceError(`Lazy module accessed before it was created: ${e.message}`, { cause: e });
+      throw e;
+    }
+    if (module == null) throw new ReferenceError('Lazy module accessed before it was created');
+    return resolved = module;
+  };
+
+  // The proxy target is a blank stand-in, so descriptors are reported as configurable
+  const proxy = new Proxy({} as T, {
+    get: (_, key) => Reflect.get(resolve(), key),
+    set: (_, key, value) => Reflect.set(resolve(), key, value),
+    has: (_, key) => key in resolve(),
+    ownKeys: () => Reflect.ownKeys(resolve()),
+    getOwnPropertyDescriptor: (_, key) => {
+      const desc = Reflect.getOwnPropertyDescriptor(resolve(), key);
+      return desc && { ...desc, configurable: true };
+    }
+  });
+  resolvers.set(proxy, resolve);
+  return proxy;
+};
+
+export const isLazy = (value: unknown): value is object =>
+  typeof value === 'object' && value !== null && resolvers.has(value);
+
+// Throws a ReferenceError while the module does not exist yet
+export const resolveLazy = <T extends object>(value: T): T => resolvers.get(value)!() as T;
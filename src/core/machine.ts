@@ -0,0 +1,90 @@
+// Finite state machine over one key of a module's State. The status lives in the state
+// itself, so watch(key) sees every transition and snapshots/persistence include it.
+import { previewState, type State } from './alvamind-core';
+import { TransitionError } from './errors';
+
+export type TransitionContext<T, St, E> = Readonly<{
+  from: St;
+  to: St;
+  event: E;
+  payload: unknown;
+  state: T;
+}>;
+
+export type MachineConfig<T, K extends keyof T, E extends string> = {
+  state: State<T>;
+  // State key holding the machine status
+  key: K;
+  // Status to start in; defaults to the value already in the state
+  initial?: T[K];
+  // Every valid status, checked against initial and the transition table
+  states?: readonly T[K][];
+  // from status -> event -> target status. Keyed by string rather than by status so that
+  // TypeScript can infer the event names from it
+  transitions: Readonly<Record<string, { [Ev in E]?: T[K] }>>;
+  // Return false to block an event
+  guards?: { [Ev in E]?: (ctx: TransitionContext<T, T[K], Ev>) => boolean };
+  // Run with the transition; a returned patch is committed together with the new status
+  actions?: { [Ev in E]?: (ctx: TransitionContext<T, T[K], Ev>) => Partial<T> | void };
+};
+
+export type Machine<St, E extends string> = Readonly<{
+  // Commits the transition synchronously and returns the new status
+  send: (event: E, payload?: unknown) => St;
+  can: (event: E, payload?: unknown) => boolean;
+  current: () => St;
+}>;
+
+export const machine = <T, K extends keyof T, E extends string>(config: MachineConfig<T, K, E>): Machine<T[K], E> => {
+  const { state, key, states } = config;
+  type Status = T[K];
+  type Ctx = TransitionContext<T, Status, E>;
+  const table = config.transitions as Record<PropertyKey, Partial<Record<E, Status>> | undefined>;
+  const guards = (config.guards ?? {}) as Partial<Record<E, (ctx: Ctx) => boolean>>;
+  const actions = (config.actions ?? {}) as Partial<Record<E, (ctx: Ctx) => Partial<T> | void>>;
+
+  if (states) {
+    const known = new Set<Status>(states);
+    for (const [from, events] of Object.entries(table)) {
+      if (!known.has(from as Status)) throw new TypeError(`Unknown source state "${from}"`);
+      for (const to of Object.values(events ?? {}) as Status[]) {
+        if (!known.has(to)) throw new TypeError(`Unknown target state "${String(to)}" from "${from}"`);
+      }
+    }
+    if (config.initial !== undefined && !known.has(config.initial)) {
+      throw new TypeError(`Unknown initial state "${String(config.initial)}"`);
+    }
+  }
+  if (config.initial !== undefined && state.get()[key] !== config.initial) {
+    state.transaction(() => state.set({ [key]: config.initial } as unknown as Partial<T>));
+  }
+
+  // Reads see queued updates without committing them, so they are safe inside a transaction
+  const current = () => previewState(state)[key];
+
+  const resolve = (event: E, payload: unknown) => {
+    const snapshot = previewState(state);
+    const from = snapshot[key];
+    const to = table[from as PropertyKey]?.[event];
+    if (to === undefined) return { from, error: `No transition for "${event}" from "${String(from)}"` };
+    const ctx: Ctx = { from, to, event, payload, state: snapshot };
+    if (guards[event] && !guards[event]!(ctx)) {
+      return { from, error: `Guard rejected "${event}" from "${String(from)}"` };
+    }
+    return { from, ctx };
+  };
+
+  return {
+    send: (event, payload) => {
+      const { from, ctx, error } = resolve(event, payload);
+      if (!ctx) throw new TransitionError(String(from), event, error!);
+      state.transaction(() => {
+        const patch = actions[event]?.(ctx);
+        state.set({ ...patch, [key]: ctx.to } as Partial<T>);
+      });
+      return ctx.to;
+    },
+    can: (event, payload) => !!resolve(event, payload).ctx,
+    current
+  };
+};
@@ -0,0 +1,149 @@
+// State persistence: hydrate a State from storage and write it back on change.
+// Adapters follow the Web Storage shape (sync or async), so localStorage works as-is.
+import type { Database } from 'bun:sqlite';
+import { hydrateState, type State, type StateSnapshot } from './alvamind-core';
+
+type MaybePromise<T> = T | Promise<T>;
+
+export type PersistAdapter = Readonly<{
+  getItem: (key: string) => MaybePromise<string | null | undefined>;
+  setItem: (key: string, value: string) => MaybePromise<void>;
+  removeItem?: (key: string) => MaybePromise<void>;
+}>;
+
+export type PersistOptions = {
+  adapter: PersistAdapter;
+  // Storage key, defaults to `alvamind:<module name>`
+  key?: string;
+  // Minimum milliseconds between writes; changes in between are coalesced
+  throttle?: number;
+};
+
+export type Persistence = Readonly<{
+  key: string;
+  hydrated: Promise<void>;
+  // Writes the current state immediately
+  flush: () => Promise<void>;
+  // Stops watching the state, writing any change still waiting on the throttle
+  dispose: () => Promise<void>;
+}>;
+
+const isSnapshot = (v: any): v is StateSnapshot =>
+  v !== null && typeof v === 'object' && typeof v.version === 'number' && 'state' in v
+  && Object.keys(v).length === 2;
+
+export const persistKey = (name: string) => `alvamind:${name}`;
+
+export const persistState = <T extends object>(
+  state: State<T>,
+  { adapter, key, throttle = 100 }: PersistOptions & { key: string }
+): Persistence => {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let writing = Promise.resolve();
+
+  // Writes are chained so a slow adapter never sees them out of order
+  const write = () => {
+    if (timer) clearTimeout(timer);
+    timer = undefined;
+    const value = JSON.stringify(state.snapshot());
+    writing = writing.catch(() => { }).then(() => adapter.setItem(key, value));
+    return writing;
+  };
+
+  const schedule = () => {
+    // A failed throttled write has no caller to report to; the next write saves the latest state anyway
+    if (!timer) timer = setTimeout(() => void write().catch(() => { }), throttle);
+  };
+
+  // Stored values are applied over the initial state so newly added keys keep their defaults.
+  // Plain objects predate versioned snapshots and are treated as version 0.
+  const hydrated = (async () => {
+    const raw = await adapter.getItem(key);
+    if (raw != null) {
+      const stored = JSON.parse(raw);
+      hydrateState(state, isSnapshot(stored) ? stored : { version: 0, state: stored });
+    }
+    state.add(schedule);
+  })();
+  // Reported to whoever awaits it
+  hydrated.catch(() => { });
+
+  return {
+    key,
+    hydrated,
+    flush: () => hydrated.then(write),
+    dispose: async () => {
+      await hydrated;
+      state.remove(schedule);
+      if (timer) await write();
+      await writing;
+    }
+  };
+};
+
+export const memoryAdapter = (store = new Map<string, string>()): PersistAdapter => ({
+  getItem: key => store.get(key),
+  setItem: (key, value) => void store.set(key, value),
+  removeItem: key => void store.delete(key)
+});
+
+// Keeps every key in one JSON document on disk
+export const fileAdapter = (path: string): PersistAdapter => {
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const read = async (): Promise<Record<string, unknown>> => {
+    const { readFile } = await import('node:fs/promises');
+    try {
+      return JSON.parse(await readFile(path, 'utf8'));
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === 'ENOENT') return {};
+      throw e;
+    }
+  };
+
+  const update = (fn: (data: Record<string, unknown>) => void) => {
+    const next = queue.then(async () => {
+      const { writeFile } = await import('node:fs/promises');
+      const data = await read();
+      fn(data);
+      await writeFile(path, JSON.stringify(data, null, 2));
+    });
+    queue = next.catch(() => { });
+    return next;
+  };
+
+  return {
+    getItem: async key => {
+      await queue;
+      const data = await read();
+      return key in data ? JSON.stringify(data[key]) : null;
+    },
+    setItem: (key, value) => update(data => { data[key] = JSON.parse(value); }),
+    removeItem: key => update(data => { delete data[key]; })
+  };
+};
+
+// bun:sqlite is loaded on first use so the adapter can be imported outside Bun
+export const sqliteAdapter = (db: string | Database = ':memory:', table = 'alvamind_state'): PersistAdapter => {
+  let opened: Promise<Database> | undefined;
+  const open = () => opened ??= (async () => {
+    const database = typeof db === 'string' ? new (await import('bun:sqlite')).Database(db) : db;
+    database.run(`CREATE TABLE IF NOT EXISTS "${table}" (key TEXT PRIMARY KEY, value TEXT NOT NULL)`);
+    return database;
+  })();
+
+  return {
+    getItem: async key => {
+      const row = (await open()).query(`SELECT value FROM "${table}" WHERE key = ?`).get(key) as { value: string } | null;
+      return row?.value ?? null;
+    },
+    setItem: async (key, value) => {
+      (await open())
+        .query(`INSERT INTO "${table}" (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value`)
+        .run(key, value);
+    },
+    removeItem: async key => {
+      (await open()).query(`DELETE FROM "${table}" WHERE key = ?`).run(key);
+    }
+  };
+};
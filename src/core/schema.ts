@@ -0,0 +1,33 @@
+// Minimal copy of the Standard Schema v1 interface (https://standardschema.dev), so zod,
+// valibot, arktype and friends can validate state and config without a dependency on any of them
+import { ValidationError } from './errors';
+
+export type StandardPathSegment = Readonly<{ key: PropertyKey }>;
+export type StandardIssue = Readonly<{
+  message: string;
+  path?: ReadonlyArray<PropertyKey | StandardPathSegment>;
+}>;
+export type StandardResult<Output> =
+  | Readonly<{ value: Output; issues?: undefined }>
+  | Readonly<{ issues: ReadonlyArray<StandardIssue> }>;
+
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly '~standard': Readonly<{
+    version: 1;
+    vendor: string;
+    validate: (value: unknown) => StandardResult<Output> | Promise<StandardResult<Output>>;
+    types?: Readonly<{ input: Input; output: Output }>;
+  }>;
+}
+
+export type ValidationTarget = 'state' | 'config';
+
+// State commits are synchronous, so async schemas are rejected rather than awaited
+export const validateSync = <T>(schema: StandardSchemaV1<unknown, T>, value: unknown, module: string, target: ValidationTarget): T => {
+  const result = schema['~standard'].validate(value);
+  if (result instanceof Promise) {
+    throw new TypeError(`[${module}] ${target} schema must validate synchronously`);
+  }
+  if (result.issues) throw new ValidationError(module, target, result.issues);
+  return result.value;
+};
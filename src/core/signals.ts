@@ -0,0 +1,232 @@
+// Fine-grained reactivity: signals hold values, computeds derive from whatever they read and
+// autoruns re-run when that changes. Dependencies are tracked automatically on every run.
+// Changes only mark dependents stale; computeds re-evaluate lazily, and only when a value
+// they read actually changed, so a reaction never runs for a change it did not read.
+import type { Equality } from './alvamind-core';
+
+export type ReadonlySignal<T> = Readonly<{
+  // Reads the value and tracks it when called inside a computed or autorun
+  get: () => T;
+  // Reads without tracking
+  peek: () => T;
+}>;
+
+export type Signal<T> = ReadonlySignal<T> & Readonly<{
+  set: (value: T) => void;
+}>;
+
+type Source = {
+  version: number;
+  observers: Set<Observer>;
+  // Brings a computed up to date; nothing to do for a plain signal
+  refresh: () => void;
+  // Called when the first observer subscribes and when the last one leaves
+  watched?: (on: boolean) => void;
+};
+
+type Observer = {
+  // Source -> the version seen on the last run
+  deps: Map<Source, number>;
+  stale: () => void;
+};
+
+let tracking: Observer | undefined;
+let batchDepth = 0;
+const queue = new Set<() => void>();
+// Guards against autoruns that keep invalidating each other
+const MAX_RUNS = 10_000;
+
+const observe = (source: Source, observer: Observer) => {
+  if (source.observers.has(observer)) return;
+  source.observers.add(observer);
+  if (source.observers.size === 1) source.watched?.(true);
+};
+
+const unobserve = (source: Source, observer: Observer) => {
+  if (!source.observers.delete(observer)) return;
+  if (!source.observers.size) source.watched?.(false);
+};
+
+const read = (source: Source) => {
+  source.refresh();
+  if (tracking && !tracking.deps.has(source)) tracking.deps.set(source, source.version);
+};
+
+const changed = (observer: Observer) => {
+  for (const [source, seen] of observer.deps) {
+    source.refresh();
+    if (source.version !== seen) return true;
+  }
+  return false;
+};
+
+// Runs fn as observer, collecting a fresh dependency set; subscribed observers also
+// re-subscribe so stale changes reach them
+const run = <R>(observer: Observer, fn: () => R, subscribed: boolean): R => {
+  const previous = observer.deps;
+  const parent = tracking;
+  observer.deps = new Map();
+  tracking = observer;
+  try {
+    return fn();
+  } finally {
+    tracking = parent;
+    if (subscribed) {
+      previous.forEach((_, source) => observer.deps.has(source) || unobserve(source, observer));
+      observer.deps.forEach((_, source) => observe(source, observer));
+    }
+  }
+};
+
+const flush = () => {
+  const errors: unknown[] = [];
+  let runs = 0;
+  // Writes made by reactions join this flush instead of starting a nested one
+  batchDepth++;
+  while (queue.size) {
+    if (++runs > MAX_RUNS) {
+      queue.clear();
+      errors.push(new Error(`Reactive updates did not settle after ${MAX_RUNS} runs`));
+      break;
+    }
+    const [reaction] = queue;
+    queue.delete(reaction);
+    try {
+      reaction();
+    } catch (e) {
+      errors.push(e);
+    }
+  }
+  batchDepth--;
+  if (errors.length) throw errors.length === 1 ? errors[0] : new AggregateError(errors, `${errors.length} autorun(s) threw`);
+};
+
+// Autoruns triggered inside fn run once, after it returns
+export const batch = <R>(fn: () => R): R => {
+  batchDepth++;
+  try {
+    return fn();
+  } finally {
+    if (!--batchDepth) flush();
+  }
+};
+
+export const untracked = <R>(fn: () => R): R => {
+  const parent = tracking;
+  tracking = undefined;
+  try {
+    return fn();
+  } finally {
+    tracking = parent;
+  }
+};
+
+export const signal = <T>(initial: T, equals: Equality<T> = Object.is): Signal<T> => {
+  let value = initial;
+  const source: Source = { version: 0, observers: new Set(), refresh: () => {} };
+  return {
+    get: () => {
+      read(source);
+      return value;
+    },
+    peek: () => value,
+    set: next => {
+      if (equals(value, next)) return;
+      value = next;
+      source.version++;
+      batch(() => [...source.observers].forEach(o => o.stale()));
+    }
+  };
+};
+
+export const computed = <T>(fn: () => T, equals: Equality<T> = Object.is): ReadonlySignal<T> => {
+  let value: T;
+  let initialized = false;
+  let computing = false;
+  let dirty = true;
+  // Forwarded staleness to observers since the last refresh
+  let notified = false;
+  const node: Source & Observer = {
+    version: 0,
+    observers: new Set(),
+    deps: new Map(),
+    stale: () => {
+      dirty = true;
+      if (notified) return;
+      notified = true;
+      [...node.observers].forEach(o => o.stale());
+    },
+    refresh: () => {
+      notified = false;
+      // Nothing notifies an unobserved computed, so it checks its dependencies on every read
+      if (!dirty && node.observers.size) return;
+      if (computing) throw new Error('Cycle detected: a computed read its own value');
+      computing = true;
+      try {
+        if (!initialized || changed(node)) {
+          const next = run(node, fn, node.observers.size > 0);
+          if (!initialized || !equals(value, next)) {
+            value = next;
+            node.version++;
+          }
+          initialized = true;
+        }
+        // A throwing fn leaves the computed dirty so the next read retries
+        dirty = false;
+      } finally {
+        computing = false;
+      }
+    },
+    watched: on => {
+      node.deps.forEach((_, source) => on ? observe(source, node) : unobserve(source, node));
+      // Changes made while nobody was subscribed were never pushed here
+      if (on) dirty = true;
+    }
+  };
+  return {
+    get: () => {
+      read(node);
+      return value;
+    },
+    peek: () => untracked(() => {
+      node.refresh();
+      return value;
+    })
+  };
+};
+
+// Runs fn now and again whenever a value it read changes; returns a function that stops it.
+// onError receives the failures of re-runs, which otherwise surface from the write that caused them.
+export const autorun = (fn: () => void, onError?: (error: unknown) => void): (() => void) => {
+  let disposed = false;
+  const observer: Observer = {
+    deps: new Map(),
+    stale: () => void queue.add(execute)
+  };
+  const unsubscribe = () => {
+    observer.deps.forEach((_, source) => unobserve(source, observer));
+    observer.deps.clear();
+  };
+  const execute = () => {
+    if (disposed) return;
+    try {
+      if (changed(observer)) run(observer, fn, true);
+    } catch (e) {
+      if (!onError) throw e;
+      onError(e);
+    } finally {
+      // fn may have stopped its own autorun
+      if (disposed) unsubscribe();
+    }
+  };
+  try {
+    run(observer, fn, true);
+  } finally {
+    if (disposed) unsubscribe();
+  }
+  return () => {
+    disposed = true;
+    queue.delete(execute);
+    unsubscribe();
+  };
+};
@@ -0,0 +1,91 @@
+// Opt-in undo/redo on top of a State. Each committed batch becomes one entry,
+// and entries are the frozen snapshots themselves, so recording is just a push.
+import { replaceState, type State, type StateListener } from './alvamind-core';
+
+export type HistoryOptions = {
+  // Maximum number of undo steps kept
+  limit?: number;
+};
+
+export type History<T> = Readonly<{
+  undo: () => boolean;
+  redo: () => boolean;
+  jumpTo: (index: number) => void;
+  canUndo: () => boolean;
+  canRedo: () => boolean;
+  entries: () => readonly T[];
+  index: () => number;
+  // Forgets past and future entries, keeping the current snapshot
+  clear: () => void;
+  // Stops recording
+  dispose: () => void;
+}>;
+
+// Commits copy the state object, so a restored entry is compared key by key
+const sameKeys = (a: object, b: object) => {
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length
+    && keys.every(key => Object.hasOwn(b, key) && Object.is((a as any)[key], (b as any)[key]));
+};
+
+export const createHistory = <T extends object>(state: State<T>, { limit = 100 }: HistoryOptions = {}): History<T> => {
+  const entries: T[] = [state.get()];
+  let index = 0;
+  let travelling = false;
+
+  const record: StateListener<T> = next => {
+    if (travelling) return;
+    entries.splice(index + 1, entries.length, next);
+    if (entries.length > limit + 1) entries.splice(0, entries.length - limit - 1);
+    index = entries.length - 1;
+  };
+  state.add(record);
+
+  const jumpTo = (i: number) => {
+    // Pending updates are part of the present and must be recorded before moving away from it
+    state.flush();
+    if (!Number.isInteger(i) || i < 0 || i >= entries.length) {
+      throw new RangeError(`History index ${i} out of range (0-${entries.length - 1})`);
+    }
+    if (i === index) return;
+    const target = entries[i];
+    travelling = true;
+    try {
+      state.transaction(() => replaceState(state, target));
+    } finally {
+      travelling = false;
+    }
+    const now = state.get();
+    if (sameKeys(now, target)) index = i;
+    // Middleware, a schema or custom equality turned the jump into a different state
+    else if (now !== entries[index]) record(now, entries[index]);
+  };
+
+  const history: History<T> = {
+    undo: () => {
+      state.flush();
+      if (!history.canUndo()) return false;
+      jumpTo(index - 1);
+      return true;
+    },
+    redo: () => {
+      state.flush();
+      if (!history.canRedo()) return false;
+      jumpTo(index + 1);
+      return true;
+    },
+    jumpTo,
+    canUndo: () => index > 0,
+    canRedo: () => index < entries.length - 1,
+    entries: () => entries.slice(),
+    index: () => index,
+    clear: () => {
+      state.flush();
+      entries.splice(0, entries.length, state.get());
+      index = 0;
+    },
+    dispose: () => state.remove(record)
+  };
+
+  return history;
+};
@@ -0,0 +1,97 @@
+// Pull (async iterator) and push (Observable) views over a listener-based source
+
+declare global {
+  interface SymbolConstructor {
+    readonly observable: symbol;
+  }
+}
+
+// Same fallback RxJS uses when the runtime has no Symbol.observable
+export const $$observable: typeof Symbol.observable = (typeof Symbol === 'function' && Symbol.observable) || '@@observable' as any;
+
+// Calls push for every value and end once the source is finished; returns its cleanup
+export type StreamSource<T> = (push: (value: T) => void, end: () => void) => () => void;
+
+export type Observer<T> = {
+  next?: (value: T) => void;
+  error?: (err: unknown) => void;
+  complete?: () => void;
+};
+export type Subscription = Readonly<{
+  unsubscribe: () => void;
+  closed: boolean;
+}>;
+export type Observable<T> = Readonly<{
+  subscribe: (observer?: Observer<T> | ((value: T) => void)) => Subscription;
+  [Symbol.observable]: () => Observable<T>;
+}>;
+
+// Values arriving faster than they are consumed are queued; values queued before the
+// source ends are still delivered
+export const iterate = <T>(source: StreamSource<T>): AsyncIterableIterator<T> => {
+  const queue: T[] = [];
+  const waiting: Array<(result: IteratorResult<T, undefined>) => void> = [];
+  let done = false;
+  let cleanup: (() => void) | undefined;
+
+  const finish = () => {
+    if (done) return;
+    done = true;
+    cleanup?.();
+    waiting.splice(0).forEach(resolve => resolve({ value: undefined, done: true }));
+  };
+
+  cleanup = source(value => {
+    if (done) return;
+    const resolve = waiting.shift();
+    if (resolve) resolve({ value, done: false });
+    else queue.push(value);
+  }, finish);
+  if (done) cleanup();
+
+  return {
+    next: () => {
+      if (queue.length) return Promise.resolve({ value: queue.shift()!, done: false });
+      if (done) return Promise.resolve({ value: undefined, done: true });
+      return new Promise(resolve => waiting.push(resolve));
+    },
+    return: () => {
+      queue.length = 0;
+      finish();
+      return Promise.resolve({ value: undefined, done: true });
+    },
+    [Symbol.asyncIterator]() {
+      return this;
+    }
+  };
+};
+
+export const observe = <T>(source: StreamSource<T>): Observable<T> => {
+  const observable: Observable<T> = {
+    subscribe: (observerOrNext = {}) => {
+      const observer = typeof observerOrNext === 'function' ? { next: observerOrNext } : observerOrNext;
+      let closed = false;
+      let cleanup: (() => void) | undefined;
+
+      const close = () => {
+        if (closed) return false;
+        closed = true;
+        cleanup?.();
+        return true;
+      };
+
+      cleanup = source(
+        value => { if (!closed) observer.next?.(value); },
+        () => { if (close()) observer.complete?.(); }
+      );
+      if (closed) cleanup();
+
+      return {
+        unsubscribe: () => void close(),
+        get closed() { return closed; }
+      };
+    },
+    [$$observable]: () => observable
+  };
+  return observable;
+};
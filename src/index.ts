@@ -5,9 +5,49 @@ export type {
   Core,
   State,
   StateListener,
+  StateUpdate,
+  StateUpdater,
+  StatePath,
+  PathValue,
+  DeepPartial,
+  Equality,
+  Selector,
+  WatchOptions,
+  StateSnapshot,
+  StateMiddleware,
+  StateEquality,
+  StateOptions,
+  Migrations,
   AlvamindInstance, // Add AlvamindInstance export
+  AlvamindOptions,
 } from './core/alvamind-core';
 
+export { MigrationError, ValidationError, JsonPatchError, ListenerError, TransitionError, CircularDependencyError, StartError, UpdateError } from './core/errors';
+export { createPatch, applyPatch } from './core/json-patch';
+export { $$observable } from './core/streams';
+export type { Observable, Observer, Subscription } from './core/streams';
+export type { JsonPatchOp } from './core/json-patch';
+export type { StandardSchemaV1, StandardIssue, ValidationTarget } from './core/schema';
+export { persistState, memoryAdapter, fileAdapter, sqliteAdapter } from './core/persist';
+export type { PersistAdapter, PersistOptions, Persistence } from './core/persist';
+export { produce } from './core/draft';
+export { createEffect } from './core/effect';
+export type { EffectContext, EffectOptions } from './core/effect';
+export type { Draft } from './core/draft';
+export { selectStore, svelteStore } from './core/external-store';
+export type { ExternalStore, Readable } from './core/external-store';
+export { entities, emptyEntities } from './core/entities';
+export type { EntityAdapter, EntityConfig, EntityId, EntityState, EntityUpdate } from './core/entities';
+export { machine } from './core/machine';
+export type { Machine, MachineConfig, TransitionContext } from './core/machine';
+export { signal, computed, autorun, batch, untracked } from './core/signals';
+export type { Signal, ReadonlySignal } from './core/signals';
+export { lazy } from './core/lazy';
+export { createApp } from './core/app';
+export type { App } from './core/app';
+export { createHistory } from './core/state-history';
+export type { History, HistoryOptions } from './core/state-history';
+
 // Re-export utilities
 export const utils = {
   checksum: (s: string): number => s.split('').reduce((h, c) => ((h << 5) - h + c.charCodeAt(0)) >>> 0, 0),
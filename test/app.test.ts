@@ -0,0 +1,113 @@
+import { expect, it, describe } from "bun:test";
+import Alvamind from "../src/core/alvamind-core";
+import { createApp } from "../src/core/app";
+import { StartError } from "../src/core/errors";
+import { memoryAdapter } from "../src/core/persist";
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 5));
+
+describe("Alvamind App", () => {
+  it("should start modules after the modules they use and stop them in reverse", async () => {
+    const events: string[] = [];
+    const track = (name: string) => Alvamind({ name, autoStart: false })
+      .onStart(async () => {
+        events.push(`start ${name}`);
+        await tick();
+        events.push(`started ${name}`);
+      })
+      .onStop(() => events.push(`stop ${name}`));
+
+    const db = track("app.order.db");
+    const cache = track("app.order.cache");
+    const users = track("app.order.users").use(db).use(cache);
+    const api = track("app.order.api").use(users);
+
+    const app = createApp(api, db);
+    expect(events).toEqual([]);
+    expect(app.order()).toEqual(["app.order.db", "app.order.cache", "app.order.users", "app.order.api"]);
+
+    await app.start();
+    expect(events).toEqual([
+      "start app.order.db", "started app.order.db",
+      "start app.order.cache", "started app.order.cache",
+      "start app.order.users", "started app.order.users",
+      "start app.order.api", "started app.order.api"
+    ]);
+
+    events.length = 0;
+    await app.stop();
+    expect(events).toEqual(["stop app.order.api", "stop app.order.users", "stop app.order.cache", "stop app.order.db"]);
+  });
+
+  it("should hold onStart hooks until start() when autoStart is false", async () => {
+    const calls: number[] = [];
+    const module = Alvamind({ name: "app.deferred", autoStart: false })
+      .onStart(() => void calls.push(1))
+      .onStart(() => void calls.push(2));
+    expect(calls).toEqual([]);
+
+    await createApp(module).start();
+    expect(calls).toEqual([1, 2]);
+  });
+
+  it("should stop started modules and report the failing one", async () => {
+    const stopped: string[] = [];
+    const config = Alvamind({ name: "app.fail.config", autoStart: false })
+      .onStop(() => stopped.push("config"));
+    const db = Alvamind({ name: "app.fail.db", autoStart: false })
+      .use(config)
+      .onStart(async () => { throw new Error("connection refused"); })
+      .onStop(() => stopped.push("db"));
+    let served = false;
+    const server = Alvamind({ name: "app.fail.server", autoStart: false })
+      .use(db)
+      .onStart(() => { served = true; });
+
+    const error = await createApp(server).start().catch(e => e);
+
+    expect(error).toBeInstanceOf(StartError);
+    expect(error.module).toBe("app.fail.db");
+    expect(error.message).toBe("[app.fail.db] Failed to start: connection refused");
+    expect(stopped).toEqual(["db", "config"]);
+    expect(served).toBe(false);
+  });
+
+  it("should wait for hydration before starting a module", async () => {
+    const storage = memoryAdapter();
+    await storage.setItem("alvamind:app.hydrate", JSON.stringify({ version: 0, state: { port: 8080 } }));
+    let port = 0;
+    const module = Alvamind({ name: "app.hydrate", state: { port: 3000 }, persist: storage, autoStart: false })
+      .onStart(({ state }) => { port = state.get().port; });
+
+    await createApp(module).start();
+
+    expect(port).toBe(8080);
+    module.stop();
+  });
+
+  it("should refuse modules whose onStart hooks already ran", () => {
+    const db = Alvamind({ name: "app.eager.db", autoStart: false });
+    const svc = Alvamind({ name: "app.eager.svc" }).use(db).onStart(() => {});
+    const api = Alvamind({ name: "app.eager.api", autoStart: false }).use(svc);
+
+    expect(() => createApp(svc)).toThrow("[app.eager.svc] onStart hooks already ran; create App modules with autoStart: false");
+    expect(() => createApp(api)).toThrow("[app.eager.svc] onStart hooks already ran");
+    expect(createApp(db).order()).toEqual(["app.eager.db"]);
+  });
+
+  it("should run onStart hooks again when restarted after stop", async () => {
+    let starts = 0;
+    const module = Alvamind({ name: "app.restart", autoStart: false }).onStart(() => { starts++; });
+    const app = createApp(module);
+
+    await app.start();
+    await app.stop();
+    await app.start();
+
+    expect(starts).toBe(2);
+  });
+
+  it("should only accept Alvamind modules", () => {
+    expect(() => createApp({})).toThrow("App.register() only accepts Alvamind modules");
+  });
+});
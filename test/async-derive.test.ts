@@ -0,0 +1,121 @@
+import { expect, it, describe } from "bun:test";
+import Alvamind from "../src/core/alvamind-core";
+import { createApp } from "../src/core/app";
+import { StartError } from "../src/core/errors";
+
+const delay = <T>(value: T, ms = 5) => new Promise<T>(resolve => setTimeout(() => resolve(value), ms));
+const fail = (message: string): Promise<string> => delay(null).then(() => { throw new Error(message); });
+
+describe("Alvamind Async Derive", () => {
+  it("should inject async factory results once ready", async () => {
+    const module = Alvamind({ name: "asyncDerive.basic", config: { url: "db://local" } })
+      .derive(async ({ config }) => {
+        const connection = await delay({ url: config.url });
+        return { query: (sql: string) => `${connection.url}: ${sql}` };
+      });
+
+    expect(module.query).toBeUndefined();
+    await module.ready();
+
+    const result: string = module.query("select 1");
+    expect(result).toBe("db://local: select 1");
+  });
+
+  it("should run later derives after the pending ones, with their methods in context", async () => {
+    const order: string[] = [];
+    const module = Alvamind({ name: "asyncDerive.chain" })
+      .derive(async () => {
+        await delay(null);
+        order.push("load");
+        return { load: () => [1, 2, 3] };
+      })
+      .derive(({ load }) => {
+        order.push("sum");
+        return { sum: () => load().reduce((a, b) => a + b, 0) };
+      });
+
+    expect(order).toEqual([]);
+    await module.ready();
+
+    expect(order).toEqual(["load", "sum"]);
+    expect(module.sum()).toBe(6);
+  });
+
+  it("should hold dependents until their providers resolve", async () => {
+    const db = Alvamind({ name: "asyncDerive.provider" })
+      .derive(async () => delay({ find: (id: number) => ({ id, name: `user ${id}` }) }));
+    const users = Alvamind({ name: "asyncDerive.dependent" })
+      .use(db)
+      .derive(({ find }) => ({ describe: (id: number) => find(id).name }));
+    const api = Alvamind({ name: "asyncDerive.transitive" })
+      .use(users)
+      .derive(({ describe }) => ({ get: (id: number) => `GET ${describe(id)}` }));
+
+    expect(users.describe).toBeUndefined();
+    await api.ready();
+
+    expect(users.describe(1)).toBe("user 1");
+    expect(api.get(2)).toBe("GET user 2");
+  });
+
+  it("should reject ready() with the factory error and skip what was queued behind it", async () => {
+    let queued = false;
+    const module = Alvamind({ name: "asyncDerive.failure" })
+      .derive(async () => {
+        const text = await fail("file not found");
+        return { text: () => text };
+      })
+      .derive(() => {
+        queued = true;
+        return {};
+      });
+
+    await expect(module.ready()).rejects.toThrow("file not found");
+    expect(queued).toBe(false);
+  });
+
+  it("should run onStart hooks after async derives", async () => {
+    const seen: string[] = [];
+    const module = Alvamind({ name: "asyncDerive.onStart" })
+      .derive(async () => delay({ greet: () => "hello" }))
+      .onStart(({ greet }) => void seen.push(greet()));
+
+    expect(seen).toEqual([]);
+    await module.ready();
+    await delay(null, 0);
+
+    expect(seen).toEqual(["hello"]);
+  });
+
+  it("should leave reporting a failed derive to ready() when hooks wait for it", async () => {
+    const unhandled: unknown[] = [];
+    const onRejection = (reason: unknown) => unhandled.push(reason);
+    process.on("unhandledRejection", onRejection);
+    let started = false;
+
+    const eager = Alvamind({ name: "asyncDerive.failedOnStart" })
+      .derive(async () => ({ port: await fail("factory failed") }))
+      .onStart(() => { started = true; });
+    const deferred = Alvamind({ name: "asyncDerive.failedStart", autoStart: false })
+      .derive(async () => ({ port: await fail("factory failed") }))
+      .onStart(() => { started = true; })
+      .start();
+    await delay(null, 20);
+    process.off("unhandledRejection", onRejection);
+
+    expect(unhandled).toEqual([]);
+    expect(started).toBe(false);
+    await expect(eager.ready()).rejects.toThrow("factory failed");
+    await expect(deferred.ready()).rejects.toThrow("factory failed");
+  });
+
+  it("should fail App startup when an async derive rejects", async () => {
+    const module = Alvamind({ name: "asyncDerive.app", autoStart: false })
+      .derive(async () => ({ port: await fail("port in use") }));
+
+    const error = await createApp(module).start().catch(e => e);
+
+    expect(error).toBeInstanceOf(StartError);
+    expect(error.message).toBe("[asyncDerive.app] Failed to start: port in use");
+  });
+});
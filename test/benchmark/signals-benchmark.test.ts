@@ -0,0 +1,63 @@
+import { expect, test, describe } from "bun:test";
+import Alvamind from "../../src/core/alvamind-core";
+
+// Hundreds of watchers spread over the keys, while updates touch one key at a time. The
+// listener core runs every selector on every commit; the reactive core only re-runs the
+// selectors that read the key that changed.
+const KEYS = 50;
+const WATCHERS_PER_KEY = 20;
+const UPDATES = 500;
+
+type Series = Record<string, number[]>;
+
+const initial = (): Series => Object.fromEntries(
+  Array.from({ length: KEYS }, (_, i) => [`k${i}`, Array.from({ length: 100 }, (_, j) => j)])
+);
+
+// Modules are cached by name, so every run needs its own
+let runId = 0;
+
+function run(reactive: boolean) {
+  let selectorRuns = 0;
+  let watcherCalls = 0;
+  const module = Alvamind<Series>({ name: `signals.bench.${runId++}`, reactive, state: initial() });
+
+  for (let i = 0; i < KEYS * WATCHERS_PER_KEY; i++) {
+    const key = `k${i % KEYS}`;
+    module.watchSelect(s => {
+      selectorRuns++;
+      return s[key].reduce((sum, n) => sum + n, 0);
+    }, () => watcherCalls++);
+  }
+  const setupRuns = selectorRuns;
+
+  const start = performance.now();
+  for (let i = 0; i < UPDATES; i++) {
+    const key = `k${i % KEYS}`;
+    module.state.transaction(() => module.state.set(prev => ({ [key]: [...prev[key], i] })));
+  }
+  const elapsed = performance.now() - start;
+  module.stop();
+
+  return { elapsed, selectorRuns: selectorRuns - setupRuns, watcherCalls };
+}
+
+describe("Signals Benchmark", () => {
+  test("reactive watchers only run for the keys they read", () => {
+    // Warm up both paths before measuring
+    run(false);
+    run(true);
+
+    const listeners = run(false);
+    const signals = run(true);
+
+    console.log(`\n${KEYS * WATCHERS_PER_KEY} watchers over ${KEYS} keys, ${UPDATES} single-key updates`);
+    console.log(`  listener core: ${listeners.elapsed.toFixed(2)}ms, ${listeners.selectorRuns} selector runs`);
+    console.log(`  reactive core: ${signals.elapsed.toFixed(2)}ms, ${signals.selectorRuns} selector runs`);
+    console.log(`  speedup: ${(listeners.elapsed / signals.elapsed).toFixed(2)}x`);
+
+    expect(listeners.selectorRuns).toBe(KEYS * WATCHERS_PER_KEY * UPDATES);
+    expect(signals.selectorRuns).toBe(WATCHERS_PER_KEY * UPDATES);
+    expect(signals.watcherCalls).toBe(listeners.watcherCalls);
+  });
+});
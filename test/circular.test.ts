@@ -0,0 +1,87 @@
+import { expect, it, describe, spyOn } from "bun:test";
+import Alvamind from "../src/core/alvamind-core";
+import { CircularDependencyError } from "../src/core/errors";
+import { lazy } from "../src/core/lazy";
+
+describe("Alvamind Circular Dependency Detection", () => {
+  it("should report the full module path of a cycle", () => {
+    const auth = Alvamind({ name: "cycle.auth" });
+    const token = Alvamind({ name: "cycle.token" }).use(auth);
+    const crypto = Alvamind({ name: "cycle.crypto" }).use(token);
+
+    let error: unknown;
+    try {
+      auth.use(crypto);
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(CircularDependencyError);
+    expect((error as CircularDependencyError).path).toEqual(["cycle.auth", "cycle.crypto", "cycle.token", "cycle.auth"]);
+    expect((error as Error).message).toBe("Circular dependency: cycle.auth -> cycle.crypto -> cycle.token -> cycle.auth");
+  });
+
+  it("should reject a module using itself", () => {
+    const self = Alvamind({ name: "cycle.self" });
+
+    expect(() => self.use(self)).toThrow("Circular dependency: cycle.self -> cycle.self");
+  });
+
+  it("should allow shared dependencies that do not form a cycle", () => {
+    const base = Alvamind({ name: "cycle.diamond.base" }).derive(() => ({ base: () => "base" }));
+    const left = Alvamind({ name: "cycle.diamond.left" }).use(base);
+    const right = Alvamind({ name: "cycle.diamond.right" }).use(base);
+    const top = Alvamind({ name: "cycle.diamond.top" }).use(left).use(right);
+
+    expect(top.base()).toBe("base");
+  });
+
+  it("should only warn in warn mode", () => {
+    const warn = spyOn(console, "warn").mockImplementation(() => {});
+    const a = Alvamind({ name: "cycle.warn.a", circular: "warn" }).derive(() => ({ a: () => "a" }));
+    const b = Alvamind({ name: "cycle.warn.b" }).use(a).derive(() => ({ b: () => "b" }));
+
+    const joined = a.use(b);
+
+    expect(warn).toHaveBeenCalledWith("[cycle.warn.a] Circular dependency: cycle.warn.a -> cycle.warn.b -> cycle.warn.a");
+    expect(joined.b()).toBe("b");
+    warn.mockRestore();
+  });
+
+  it("should not treat lazy dependencies as cycles", () => {
+    const ping = Alvamind({ name: "cycle.lazy.ping" })
+      .use(lazy((): { pong: () => string } => pong))
+      .derive(ctx => ({ ping: () => `ping ${ctx.pong()}` }));
+    const pong = Alvamind({ name: "cycle.lazy.pong" })
+      .use(ping)
+      .derive(() => ({ pong: () => "pong" }));
+
+    expect(ping.ping()).toBe("ping pong");
+    expect(pong.pong()).toBe("pong");
+  });
+
+  it("should not treat lazy dependencies that already exist as cycles", () => {
+    const a = Alvamind({ name: "cycle.lazy.existing.a" }).derive(() => ({ a: () => "a" }));
+    const b = Alvamind({ name: "cycle.lazy.existing.b" }).use(a).derive(() => ({ b: () => "b" }));
+
+    const joined = a.use(lazy(() => b));
+
+    expect(joined.b()).toBe("b");
+  });
+
+  it("should forget the edges and mode of a module re-created by name", () => {
+    const warn = spyOn(console, "warn").mockImplementation(() => {});
+    const first = Alvamind({ name: "cycle.redeclare.a" });
+    Alvamind({ name: "cycle.redeclare.b" }).use(first);
+
+    // b no longer uses a once it is declared again, so a using b closes no cycle
+    const b = Alvamind({ name: "cycle.redeclare.b" });
+    expect(() => Alvamind({ name: "cycle.redeclare.a" }).use(b)).not.toThrow();
+
+    const a = Alvamind({ name: "cycle.redeclare.a", circular: "warn" });
+    b.use(a);
+    expect(() => a.use(b)).not.toThrow();
+    expect(warn).toHaveBeenCalledWith("[cycle.redeclare.a] Circular dependency: cycle.redeclare.a -> cycle.redeclare.b -> cycle.redeclare.a");
+    warn.mockRestore();
+  });
+});
@@ -95,8 +95,8 @@ describe('Alvamind Dependency Injection and Module Composition', () => {
     }
 
     it('should handle async circular dependencies with type safety', async () => {
-        const serviceA = Alvamind({ name: 'serviceA' });
-        const serviceB = Alvamind({ name: 'serviceB' });
+        const serviceA = Alvamind({ name: 'serviceA', circular: 'warn' });
+        const serviceB = Alvamind({ name: 'serviceB', circular: 'warn' });
 
         // Initialize with default values first
         serviceA.derive((): AsyncModuleA => ({
@@ -302,8 +302,8 @@ describe('Alvamind Dependency Injection and Module Composition', () => {
     });
 
     it('should handle circular dependencies gracefully', () => {
-        const moduleA = Alvamind({ name: 'moduleA' });
-        const moduleB = Alvamind({ name: 'moduleB' }).use(moduleA);
+        const moduleA = Alvamind({ name: 'moduleA', circular: 'warn' });
+        const moduleB = Alvamind({ name: 'moduleB', circular: 'warn' }).use(moduleA);
 
         moduleA.use(moduleB).derive(() => ({
             moduleA: {
@@ -511,7 +511,7 @@ describe('Alvamind Dependency Injection and Module Composition', () => {
 
 
     it('should handle async error propagation in circular dependencies', async () => {
-        const errorModule = Alvamind({ name: 'error' })
+        const errorModule = Alvamind({ name: 'error', circular: 'warn' })
             .derive(() => ({
                 error: {
                     throwError: async () => {
@@ -520,7 +520,7 @@ describe('Alvamind Dependency Injection and Module Composition', () => {
                 }
             }));
 
-        const handlerModule = Alvamind({ name: 'handler' })
+        const handlerModule = Alvamind({ name: 'handler', circular: 'warn' })
             .use(errorModule)
             .derive(({ error }) => ({
                 handler: {
@@ -640,14 +640,14 @@ describe('Alvamind Advanced Circular Dependency Tests', () => {
         }
 
         // Initialize modules with default implementations first
-        const worker = Alvamind({ name: 'worker' }).derive((): Worker => ({
+        const worker = Alvamind({ name: 'worker', circular: 'warn' }).derive((): Worker => ({
             worker: {
                 process: async (data) => `Default processed ${data}`,
                 notify: async (msg) => { }
             }
         }));
 
-        const logger = Alvamind({ name: 'logger' }).derive((): Logger => ({
+        const logger = Alvamind({ name: 'logger', circular: 'warn' }).derive((): Logger => ({
             logger: {
                 log: async (msg) => { },
                 getLatest: async () => 'latest log'
@@ -0,0 +1,114 @@
+import { expect, it, describe } from "bun:test";
+import Alvamind from "../src/core/alvamind-core";
+import { produce } from "../src/core/draft";
+
+describe("Alvamind Draft Updates", () => {
+  interface Item { id: number; name: string; tags: string[] }
+  interface Inventory { items: Item[]; owner: { name: string; level: number }; gold: number }
+
+  const initial = (): Inventory => ({
+    items: [{ id: 1, name: "sword", tags: ["sharp"] }, { id: 2, name: "shield", tags: [] }],
+    owner: { name: "hero", level: 1 },
+    gold: 10
+  });
+
+  it("should apply draft mutations to a new frozen snapshot", () => {
+    const { state } = Alvamind<Inventory>({ name: "draft.update", state: initial() });
+    const before = state.get();
+
+    state.update(draft => {
+      draft.items.push({ id: 3, name: "potion", tags: [] });
+      draft.owner.level++;
+    });
+    state.flush();
+    const after = state.get();
+
+    expect(after.items.map(i => i.name)).toEqual(["sword", "shield", "potion"]);
+    expect(after.owner.level).toBe(2);
+    expect(before.owner.level).toBe(1);
+    expect(before.items).toHaveLength(2);
+    expect(Object.isFrozen(after.items)).toBe(true);
+    expect(Object.isFrozen(after.items[2])).toBe(true);
+  });
+
+  it("should share untouched branches with the previous snapshot", () => {
+    const { state } = Alvamind<Inventory>({ name: "draft.sharing", state: initial() });
+    const before = state.get();
+
+    state.update(draft => { draft.items[1].tags.push("sturdy"); });
+    state.flush();
+    const after = state.get();
+
+    expect(after.owner).toBe(before.owner);
+    expect(after.items[0]).toBe(before.items[0]);
+    expect(after.items[1]).not.toBe(before.items[1]);
+    expect(after.items[1].tags).toEqual(["sturdy"]);
+  });
+
+  it("should compose with other updates in the same batch and notify once", async () => {
+    const { state } = Alvamind<Inventory>({ name: "draft.batch", state: initial() });
+    let notified = 0;
+    state.add(() => notified++);
+
+    state.set(prev => ({ gold: prev.gold + 5 }));
+    state.update(draft => { draft.gold *= 2; });
+    await Promise.resolve();
+
+    expect(state.get().gold).toBe(30);
+    expect(notified).toBe(1);
+  });
+
+  it("should support deletes, splices and moving drafts around", () => {
+    const base = { list: [{ v: 1 }, { v: 2 }, { v: 3 }], map: { a: { n: 1 }, b: { n: 2 } } as Record<string, { n: number }> };
+
+    const next = produce(base, draft => {
+      draft.list.splice(0, 1);
+      draft.list[0].v = 20;
+      draft.map.c = draft.map.a;
+      delete draft.map.a;
+    });
+
+    expect(next).toEqual({ list: [{ v: 20 }, { v: 3 }], map: { b: { n: 2 }, c: { n: 1 } } });
+    expect(next.map.c).toBe(base.map.a);
+    expect(next.list[1]).toBe(base.list[2]);
+    expect(base.list).toHaveLength(3);
+  });
+
+  it("should remove top-level keys deleted from the draft", () => {
+    const { state } = Alvamind<{ a: number; b?: number }>({ name: "draft.deleteKey", state: { a: 1, b: 2 } });
+
+    state.update(draft => { delete draft.b; });
+    state.flush();
+
+    expect(state.get()).toEqual({ a: 1 });
+    expect("b" in state.get()).toBe(false);
+  });
+
+  it("should finalize a draft that is reachable from two places once", () => {
+    const { state } = Alvamind<Inventory & { selected?: Item }>({ name: "draft.alias", state: initial() });
+
+    state.update(draft => {
+      draft.selected = draft.items[0];
+      draft.selected.name = "longsword";
+    });
+    state.flush();
+
+    const next = state.get();
+    expect(next.selected).toBe(next.items[0]);
+    expect(next.items[0].name).toBe("longsword");
+    expect(Object.isFrozen(next.selected)).toBe(true);
+  });
+
+  it("should return the base when nothing changed", () => {
+    const base = Object.freeze({ a: Object.freeze({ b: 1 }) });
+
+    expect(produce(base, draft => { draft.a.b = 1; })).toBe(base);
+  });
+
+  it("should revoke drafts that escape the recipe", () => {
+    let leaked: any;
+    produce({ a: { b: 1 } }, draft => { leaked = draft.a; });
+
+    expect(() => leaked.b).toThrow(TypeError);
+  });
+});
@@ -0,0 +1,129 @@
+import { expect, it, describe } from "bun:test";
+import Alvamind, { type State } from "../src/core/alvamind-core";
+import { ListenerError } from "../src/core/errors";
+
+describe("Alvamind Effects", () => {
+  interface Search { query: string; page: number; theme: string }
+  const initial = (): Search => ({ query: "", page: 1, theme: "dark" });
+  const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+  const type = (state: State<Search>, query: string) => state.transaction(() => state.set({ query }));
+
+  it("should run when one of the selected keys changes", () => {
+    const runs: Array<[string, string]> = [];
+    const module = Alvamind<Search>({ name: "effect.keys", state: initial() })
+      .effect(["query", "page"], ({ state, prev }) => runs.push([state.query, prev.query]));
+
+    module.state.transaction(() => module.state.set({ theme: "light" }));
+    type(module.state, "a");
+
+    expect(runs).toEqual([["a", ""]]);
+  });
+
+  it("should debounce bursts of changes into one trailing run", async () => {
+    const runs: Array<[string, string]> = [];
+    const module = Alvamind<Search>({ name: "effect.debounce", state: initial() })
+      .effect("query", ({ state, prev }) => runs.push([state.query, prev.query]), { debounce: 20 });
+
+    type(module.state, "a");
+    type(module.state, "ab");
+    type(module.state, "abc");
+    expect(runs).toEqual([]);
+    await wait(40);
+
+    expect(runs).toEqual([["abc", ""]]);
+  });
+
+  it("should run on the leading edge when asked", async () => {
+    const runs: string[] = [];
+    const module = Alvamind<Search>({ name: "effect.leading", state: initial() })
+      .effect("query", ({ state }) => runs.push(state.query), { debounce: 20, leading: true });
+
+    type(module.state, "a");
+    type(module.state, "ab");
+    expect(runs).toEqual(["a"]);
+    await wait(40);
+
+    expect(runs).toEqual(["a", "ab"]);
+  });
+
+  it("should throttle to at most one run per window", async () => {
+    const runs: string[] = [];
+    const module = Alvamind<Search>({ name: "effect.throttle", state: initial() })
+      .effect("query", ({ state }) => runs.push(state.query), { throttle: 20 });
+
+    type(module.state, "a");
+    type(module.state, "ab");
+    type(module.state, "abc");
+    expect(runs).toEqual(["a"]);
+    await wait(30);
+    expect(runs).toEqual(["a", "abc"]);
+    await wait(30);
+
+    expect(runs).toEqual(["a", "abc"]);
+  });
+
+  it("should abort stale async runs", async () => {
+    const aborted: string[] = [];
+    const finished: string[] = [];
+    const module = Alvamind<Search>({ name: "effect.abort", state: initial() })
+      .effect("query", async ({ state, signal }) => {
+        signal.addEventListener("abort", () => aborted.push(state.query));
+        await wait(10);
+        if (!signal.aborted) finished.push(state.query);
+      });
+
+    type(module.state, "a");
+    type(module.state, "ab");
+    await wait(20);
+
+    expect(aborted).toEqual(["a"]);
+    expect(finished).toEqual(["ab"]);
+  });
+
+  it("should report failed async runs to onError", async () => {
+    const errors: ListenerError[] = [];
+    const module = Alvamind<Search>({ name: "effect.errors", state: initial(), onError: e => errors.push(e) })
+      .effect("query", async ({ state }) => {
+        await wait(1);
+        throw new Error(`search for "${state.query}" failed`);
+      });
+
+    type(module.state, "a");
+    await wait(10);
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toBeInstanceOf(ListenerError);
+    expect(errors[0].message).toBe('[effect.errors] State listener threw: search for "a" failed');
+  });
+
+  it("should report sync throws of debounced runs to onError", async () => {
+    const errors: ListenerError[] = [];
+    const module = Alvamind<Search>({ name: "effect.sync-errors", state: initial(), onError: e => errors.push(e) })
+      .effect("query", ({ state }) => {
+        throw new Error(`search for "${state.query}" failed`);
+      }, { debounce: 5 });
+
+    type(module.state, "a");
+    await wait(20);
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0].message).toBe('[effect.sync-errors] State listener threw: search for "a" failed');
+  });
+
+  it("should tear down pending runs when the module stops", async () => {
+    const runs: string[] = [];
+    let signal: AbortSignal | undefined;
+    const module = Alvamind<Search>({ name: "effect.stop", state: initial() })
+      .effect("page", ctx => { signal = ctx.signal; })
+      .effect("query", ({ state }) => runs.push(state.query), { debounce: 10 });
+
+    module.state.transaction(() => module.state.set({ page: 2 }));
+    type(module.state, "a");
+    module.stop();
+    type(module.state, "ab");
+    await wait(20);
+
+    expect(runs).toEqual([]);
+    expect(signal?.aborted).toBe(true);
+  });
+});
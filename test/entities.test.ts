@@ -0,0 +1,118 @@
+import { expect, it, describe } from "bun:test";
+import Alvamind from "../src/core/alvamind-core";
+import { emptyEntities, entities, type EntityState } from "../src/core/entities";
+
+describe("Alvamind Entity Collections", () => {
+  interface Todo { id: string; title: string; done: boolean }
+  interface TodoState { todos: EntityState<Todo> }
+
+  const createTodos = (name: string, sorted = false) => {
+    const { state } = Alvamind<TodoState>({ name, state: { todos: emptyEntities<Todo>() } });
+    const todos = entities({
+      state,
+      key: "todos",
+      sortComparer: sorted ? (a, b) => a.title.localeCompare(b.title) : undefined
+    });
+    return { state, todos };
+  };
+
+  it("should add records by id and ignore duplicates", () => {
+    const { state, todos } = createTodos("entities.add");
+
+    todos.addOne({ id: "a", title: "Write", done: false });
+    todos.addMany([{ id: "b", title: "Test", done: false }, { id: "a", title: "Ignored", done: true }]);
+    state.flush();
+
+    expect(todos.selectIds()).toEqual(["a", "b"]);
+    expect(todos.selectById("a")).toEqual({ id: "a", title: "Write", done: false });
+    expect(todos.selectTotal()).toBe(2);
+    expect(Object.isFrozen(state.get().todos.entities)).toBe(true);
+  });
+
+  it("should upsert, update and remove records", () => {
+    const { state, todos } = createTodos("entities.crud");
+
+    todos.addMany([{ id: "a", title: "Write", done: false }, { id: "b", title: "Test", done: false }]);
+    todos.upsertMany([{ id: "a", title: "Write docs", done: false }, { id: "c", title: "Ship", done: false }]);
+    todos.updateOne({ id: "b", changes: { done: true } });
+    todos.updateOne({ id: "missing", changes: { done: true } });
+    todos.removeOne("a");
+    state.flush();
+
+    expect(todos.selectAll()).toEqual([
+      { id: "b", title: "Test", done: true },
+      { id: "c", title: "Ship", done: false }
+    ]);
+    expect(todos.selectById("a")).toBeUndefined();
+  });
+
+  it("should not list an id twice when an update renames onto it", () => {
+    const { state, todos } = createTodos("entities.rename");
+
+    todos.addMany([{ id: "x", title: "Draft", done: false }, { id: "y", title: "Final", done: false }]);
+    todos.updateOne({ id: "x", changes: { id: "y", done: true } });
+    state.flush();
+
+    expect(todos.selectIds()).toEqual(["y"]);
+    expect(todos.selectTotal()).toBe(1);
+    expect(todos.selectAll()).toEqual([{ id: "y", title: "Draft", done: true }]);
+  });
+
+  it("should keep ids sorted with a comparer", () => {
+    const { state, todos } = createTodos("entities.sorted", true);
+
+    todos.setAll([
+      { id: "1", title: "Charlie", done: false },
+      { id: "2", title: "Alpha", done: false },
+      { id: "3", title: "Bravo", done: false }
+    ]);
+    todos.updateOne({ id: "2", changes: { title: "Delta" } });
+    state.flush();
+
+    expect(todos.selectIds()).toEqual(["3", "1", "2"]);
+  });
+
+  it("should memoize selectAll until the collection changes", () => {
+    const { state, todos } = createTodos("entities.memo");
+    todos.addOne({ id: "a", title: "Write", done: false });
+    state.flush();
+
+    const first = todos.selectAll();
+    state.set({});
+    state.flush();
+    expect(todos.selectAll()).toBe(first);
+
+    todos.updateOne({ id: "a", changes: { done: true } });
+    state.flush();
+    expect(todos.selectAll()).not.toBe(first);
+    expect(todos.selectAll()[0].done).toBe(true);
+  });
+
+  it("should not notify watchers for writes that change nothing", () => {
+    let calls = 0;
+    const module = Alvamind<TodoState>({ name: "entities.noop", state: { todos: emptyEntities<Todo>() } })
+      .watch("todos", () => calls++);
+    const todos = entities({ state: module.state, key: "todos" });
+
+    todos.removeOne("missing");
+    todos.updateOne({ id: "missing", changes: { done: true } });
+    module.state.flush();
+    expect(calls).toBe(0);
+
+    todos.addOne({ id: "a", title: "Write", done: false });
+    module.state.flush();
+    expect(calls).toBe(1);
+  });
+
+  it("should support custom ids", () => {
+    interface User { email: string; name: string }
+    const { state } = Alvamind<{ users: EntityState<User> }>({ name: "entities.custom", state: { users: emptyEntities<User>() } });
+    const users = entities({ state, key: "users", selectId: u => u.email });
+
+    users.upsertOne({ email: "a@x.dev", name: "Ada" });
+    users.upsertOne({ email: "a@x.dev", name: "Ada L." });
+    state.flush();
+
+    expect(users.selectAll()).toEqual([{ email: "a@x.dev", name: "Ada L." }]);
+  });
+});
@@ -0,0 +1,65 @@
+import { expect, it, describe } from "bun:test";
+import Alvamind from "../src/core/alvamind-core";
+import { selectStore, svelteStore } from "../src/core/external-store";
+
+describe("Alvamind Framework Store Contracts", () => {
+  interface Cart { items: string[]; coupon: string }
+
+  // Mirrors what React's useSyncExternalStore does: read, subscribe, re-read on change
+  const renderWith = <T>(store: { subscribe: (fn: () => void) => () => void; getSnapshot: () => T }) => {
+    const renders: T[] = [store.getSnapshot()];
+    expect(store.getSnapshot()).toBe(renders[0]);
+    const unsubscribe = store.subscribe(() => renders.push(store.getSnapshot()));
+    return { renders, unsubscribe };
+  };
+
+  it("should satisfy the useSyncExternalStore contract", () => {
+    const { state } = Alvamind<Cart>({ name: "externalStore.react", state: { items: [], coupon: "" } });
+    const { renders, unsubscribe } = renderWith(state);
+
+    state.transaction(() => state.set({ items: ["potion"] }));
+    unsubscribe();
+    state.transaction(() => state.set({ items: [] }));
+
+    expect(renders.map(s => s.items)).toEqual([[], ["potion"]]);
+  });
+
+  it("should only notify selector-scoped subscribers when their slice changes", () => {
+    const { state } = Alvamind<Cart>({ name: "externalStore.selector", state: { items: [], coupon: "" } });
+    const count = selectStore(state, s => s.items.length);
+    const { renders } = renderWith(count);
+
+    state.transaction(() => state.set({ coupon: "SAVE" }));
+    state.transaction(() => state.set({ items: ["sword"] }));
+
+    expect(renders).toEqual([0, 1]);
+  });
+
+  it("should keep selected snapshots stable under a custom equality", () => {
+    const { state } = Alvamind<Cart>({ name: "externalStore.equality", state: { items: ["a"], coupon: "" } });
+    const upper = selectStore(
+      state,
+      s => s.items.map(item => item.toUpperCase()),
+      (a, b) => a.join() === b.join()
+    );
+    const first = upper.getSnapshot();
+
+    state.transaction(() => state.set({ items: ["a"] }));
+
+    expect(upper.getSnapshot()).toBe(first);
+  });
+
+  it("should implement the Svelte store contract", () => {
+    const { state } = Alvamind<Cart>({ name: "externalStore.svelte", state: { items: [], coupon: "" } });
+    const coupon = svelteStore(state, s => s.coupon);
+    const values: string[] = [];
+
+    const unsubscribe = coupon.subscribe(value => values.push(value));
+    state.transaction(() => state.set({ coupon: "HALF" }));
+    state.transaction(() => state.set({ items: ["shield"] }));
+    unsubscribe();
+    state.transaction(() => state.set({ coupon: "" }));
+
+    expect(values).toEqual(["", "HALF"]);
+  });
+});
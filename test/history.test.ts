@@ -0,0 +1,139 @@
+import { expect, it, describe } from "bun:test";
+import Alvamind from "../src/core/alvamind-core";
+import { createHistory } from "../src/core/state-history";
+
+describe("Alvamind State History", () => {
+  interface Doc { text: string; cursor: number }
+
+  const createDoc = (name: string) => Alvamind<Doc>({ name, state: { text: "", cursor: 0 } });
+
+  it("should record one entry per committed batch", async () => {
+    const { state } = createDoc("history.batch");
+    const history = createHistory(state);
+
+    state.set({ text: "a" });
+    state.set({ cursor: 1 });
+    await Promise.resolve();
+    state.set({ text: "ab", cursor: 2 });
+    await Promise.resolve();
+
+    expect(history.entries().map(e => e.text)).toEqual(["", "a", "ab"]);
+    expect(history.index()).toBe(2);
+  });
+
+  it("should undo and redo snapshots", () => {
+    const { state } = createDoc("history.undoRedo");
+    const history = createHistory(state);
+
+    state.transaction(() => state.set({ text: "a" }));
+    state.transaction(() => state.set({ text: "ab" }));
+
+    expect(history.undo()).toBe(true);
+    expect(state.get().text).toBe("a");
+    expect(history.undo()).toBe(true);
+    expect(state.get().text).toBe("");
+    expect(history.undo()).toBe(false);
+
+    expect(history.redo()).toBe(true);
+    expect(state.get().text).toBe("a");
+  });
+
+  it("should include pending updates before undoing", () => {
+    const { state } = createDoc("history.pending");
+    const history = createHistory(state);
+
+    state.set({ text: "typed" });
+    history.undo();
+
+    expect(state.get().text).toBe("");
+    expect(history.canRedo()).toBe(true);
+  });
+
+  it("should drop the redo branch when a new update is committed", () => {
+    const { state } = createDoc("history.branch");
+    const history = createHistory(state);
+
+    state.transaction(() => state.set({ text: "a" }));
+    state.transaction(() => state.set({ text: "ab" }));
+    history.undo();
+    state.transaction(() => state.set({ text: "ac" }));
+
+    expect(history.canRedo()).toBe(false);
+    expect(history.entries().map(e => e.text)).toEqual(["", "a", "ac"]);
+  });
+
+  it("should jump to any recorded entry and notify listeners", () => {
+    const { state } = createDoc("history.jump");
+    const history = createHistory(state);
+    const seen: string[] = [];
+    state.add(next => seen.push(next.text));
+
+    ["a", "ab", "abc"].forEach(text => state.transaction(() => state.set({ text })));
+    history.jumpTo(1);
+
+    expect(state.get().text).toBe("a");
+    expect(seen).toEqual(["a", "ab", "abc", "a"]);
+    expect(() => history.jumpTo(10)).toThrow(RangeError);
+  });
+
+  it("should restore snapshots without keys added after them", () => {
+    const { state } = Alvamind<{ a: number; b?: number }>({ name: "history.replace", state: { a: 1 } });
+    const history = createHistory(state);
+
+    state.transaction(() => state.set({ b: 2 }));
+    history.undo();
+
+    expect(state.get()).toEqual({ a: 1 });
+    expect("b" in state.get()).toBe(false);
+    expect(history.index()).toBe(0);
+  });
+
+  it("should keep its position when middleware vetoes a jump", () => {
+    const { state } = createDoc("history.veto");
+    const history = createHistory(state);
+    state.transaction(() => state.set({ text: "a" }));
+    const unlock = state.use(prev => prev);
+
+    history.undo();
+
+    expect(state.get().text).toBe("a");
+    expect(history.index()).toBe(1);
+    unlock();
+  });
+
+  it("should record the state a jump actually produced", () => {
+    const { state } = createDoc("history.rewrite");
+    const history = createHistory(state);
+    state.transaction(() => state.set({ text: "a", cursor: 1 }));
+    state.use((prev, patch, next) => next({ ...patch, cursor: 99 }));
+
+    history.undo();
+
+    expect(state.get()).toEqual({ text: "", cursor: 99 });
+    expect(history.index()).toBe(2);
+    expect(history.entries()[2]).toBe(state.get());
+  });
+
+  it("should respect the configured depth", () => {
+    const { state } = createDoc("history.limit");
+    const history = createHistory(state, { limit: 2 });
+
+    ["a", "b", "c", "d"].forEach(text => state.transaction(() => state.set({ text })));
+
+    expect(history.entries().map(e => e.text)).toEqual(["b", "c", "d"]);
+    history.undo();
+    history.undo();
+    expect(history.undo()).toBe(false);
+    expect(state.get().text).toBe("b");
+  });
+
+  it("should stop recording once disposed", () => {
+    const { state } = createDoc("history.dispose");
+    const history = createHistory(state);
+
+    history.dispose();
+    state.transaction(() => state.set({ text: "a" }));
+
+    expect(history.entries()).toHaveLength(1);
+  });
+});
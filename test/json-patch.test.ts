@@ -0,0 +1,119 @@
+import { expect, it, describe } from "bun:test";
+import Alvamind from "../src/core/alvamind-core";
+import { JsonPatchError, UpdateError } from "../src/core/errors";
+import { applyPatch, createPatch, type JsonPatchOp } from "../src/core/json-patch";
+
+describe("Alvamind JSON Patch", () => {
+  interface Todo { id: number; title: string; done: boolean }
+  interface Todos { todos: Todo[]; filter: string; meta: { "a/b"?: number; owner?: string } }
+
+  const initial = (): Todos => ({
+    todos: [{ id: 1, title: "write", done: false }],
+    filter: "all",
+    meta: { owner: "ada" }
+  });
+
+  it("should emit the operations of each committed batch", () => {
+    const { state } = Alvamind<Todos>({ name: "jsonPatch.feed", state: initial() });
+    const batches: JsonPatchOp[][] = [];
+    state.onPatch(ops => batches.push(ops));
+
+    state.transaction(() => {
+      state.setIn(["todos", 0, "done"], true);
+      state.set(prev => ({ todos: [...prev.todos, { id: 2, title: "test", done: false }] }));
+      state.set({ meta: { "a/b": 1 } });
+    });
+
+    expect(batches).toEqual([[
+      { op: "replace", path: "/todos/0/done", value: true },
+      { op: "add", path: "/todos/1", value: { id: 2, title: "test", done: false } },
+      { op: "remove", path: "/meta/owner" },
+      { op: "add", path: "/meta/a~1b", value: 1 }
+    ]]);
+  });
+
+  it("should replicate a store through its patch feed", () => {
+    const source = Alvamind<Todos>({ name: "jsonPatch.source", state: initial() }).state;
+    const replica = Alvamind<Todos>({ name: "jsonPatch.replica", state: initial() }).state;
+    source.onPatch(ops => replica.transaction(() => replica.applyPatch(ops)));
+
+    source.transaction(() => source.set(prev => ({ todos: prev.todos.slice(1), filter: "done" })));
+    source.transaction(() => source.setIn(["meta", "owner"], "grace"));
+
+    expect(replica.get()).toEqual(source.get());
+  });
+
+  it("should remove top-level keys", () => {
+    const { state } = Alvamind<{ a: number; b?: number }>({ name: "jsonPatch.removeKey", state: { a: 1, b: 2 } });
+
+    state.transaction(() => state.applyPatch([{ op: "remove", path: "/b" }]));
+
+    expect(state.get()).toEqual({ a: 1 });
+    expect("b" in state.get()).toBe(false);
+  });
+
+  it("should drop only a patch that fails to apply and report it to onError", async () => {
+    const errors: unknown[] = [];
+    const { state } = Alvamind<Todos>({ name: "jsonPatch.invalid", state: initial(), onError: e => errors.push(e) });
+
+    state.set({ filter: "done" });
+    state.applyPatch([{ op: "remove", path: "/nope/x" }]);
+    await Promise.resolve();
+
+    expect(state.get().filter).toBe("done");
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toBeInstanceOf(UpdateError);
+    expect((errors[0] as UpdateError).cause).toBeInstanceOf(JsonPatchError);
+    expect((errors[0] as Error).message).toBe('[jsonPatch.invalid] Update rejected: Path "/nope/x" does not exist');
+  });
+
+  it("should throw a patch failure from transaction after committing the other updates", () => {
+    const { state } = Alvamind<Todos>({ name: "jsonPatch.invalidTransaction", state: initial() });
+
+    expect(() => state.transaction(() => {
+      state.set({ filter: "done" });
+      state.applyPatch([{ op: "test", path: "/filter", value: "all" }]);
+    })).toThrow('Test failed at "/filter"');
+    expect(state.get().filter).toBe("done");
+  });
+
+  it("should stop emitting after unsubscribing", () => {
+    const { state } = Alvamind<Todos>({ name: "jsonPatch.unsubscribe", state: initial() });
+    let calls = 0;
+    const unsubscribe = state.onPatch(() => calls++);
+
+    state.transaction(() => state.set({ filter: "open" }));
+    unsubscribe();
+    state.transaction(() => state.set({ filter: "all" }));
+
+    expect(calls).toBe(1);
+  });
+
+  it("should apply every RFC 6902 operation immutably", () => {
+    const doc = { a: { b: [1, 2, 3] }, c: "x" };
+    const next = applyPatch(doc, [
+      { op: "test", path: "/c", value: "x" },
+      { op: "add", path: "/a/b/-", value: 4 },
+      { op: "remove", path: "/a/b/0" },
+      { op: "replace", path: "/c", value: "y" },
+      { op: "copy", from: "/a/b", path: "/d" },
+      { op: "move", from: "/c", path: "/e" }
+    ]);
+
+    expect(next).toEqual({ a: { b: [2, 3, 4] }, d: [2, 3, 4], e: "y" } as any);
+    expect(doc).toEqual({ a: { b: [1, 2, 3] }, c: "x" });
+  });
+
+  it("should round-trip createPatch through applyPatch", () => {
+    const prev = { list: [1, 2, 3], nested: { keep: { x: 1 }, drop: true } };
+    const next = { list: [1, 5], nested: { keep: prev.nested.keep, added: "yes" } };
+
+    expect(applyPatch(prev, createPatch(prev, next))).toEqual(next as any);
+  });
+
+  it("should reject invalid operations", () => {
+    expect(() => applyPatch({ a: 1 }, [{ op: "remove", path: "/b" }])).toThrow(JsonPatchError);
+    expect(() => applyPatch({ a: 1 }, [{ op: "test", path: "/a", value: 2 }])).toThrow('Test failed at "/a"');
+    expect(() => applyPatch({ a: [1] }, [{ op: "replace", path: "/a/3", value: 2 }])).toThrow("out of range");
+  });
+});
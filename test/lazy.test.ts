@@ -0,0 +1,68 @@
+import { expect, it, describe } from "bun:test";
+import Alvamind from "../src/core/alvamind-core";
+import { lazy } from "../src/core/lazy";
+
+describe("Alvamind Lazy Modules", () => {
+  interface Parity { isOdd: (n: number) => boolean }
+
+  it("should compose mutually dependent modules", () => {
+    const even = Alvamind({ name: "lazy.even" })
+      .use(lazy((): Parity => odd))
+      .derive(ctx => ({
+        isEven: (n: number): boolean => n === 0 || ctx.isOdd(n - 1)
+      }));
+    const odd = Alvamind({ name: "lazy.odd" })
+      .use(even)
+      .derive(({ isEven }) => ({
+        isOdd: (n: number): boolean => n !== 0 && isEven(n - 1)
+      }));
+
+    expect(even.isEven(10)).toBe(true);
+    expect(odd.isOdd(7)).toBe(true);
+    expect(even.isOdd(4)).toBe(false);
+  });
+
+  it("should resolve members on the module itself once they are needed", () => {
+    const consumer = Alvamind({ name: "lazy.consumer" }).use(lazy(() => provider));
+    const provider = Alvamind({ name: "lazy.provider" }).derive(() => ({ greet: () => "hi" }));
+
+    expect(consumer.greet()).toBe("hi");
+    expect((Alvamind({ name: "lazy.consumer" }) as typeof consumer).greet()).toBe("hi");
+  });
+
+  it("should use an already created module right away", () => {
+    const provider = Alvamind({ name: "lazy.eager.provider" }).derive(() => ({ value: () => 42 }));
+    const consumer = Alvamind({ name: "lazy.eager.consumer" })
+      .use(lazy(() => provider))
+      .derive(({ value }) => ({ doubled: () => value() * 2 }));
+
+    expect(consumer.doubled()).toBe(84);
+  });
+
+  it("should throw instead of returning undefined when the module does not exist yet", () => {
+    const consumer = Alvamind({ name: "lazy.early" })
+      .use(lazy<{ late: () => string }>(() => late))
+      .derive(ctx => ({ callLate: () => ctx.late() }));
+
+    expect(() => consumer.callLate()).toThrow(ReferenceError);
+    expect(() => consumer.callLate()).toThrow("Lazy module accessed before it was created");
+
+    const late = Alvamind({ name: "lazy.late" }).derive(() => ({ late: () => "ready" }));
+    expect(consumer.callLate()).toBe("ready");
+    expect(late.late()).toBe("ready");
+  });
+
+  it("should proxy direct member access", () => {
+    const ref = lazy(() => target);
+    const target = Alvamind({ name: "lazy.direct" }).derive(() => ({ ping: () => "pong" }));
+
+    expect(ref.ping()).toBe("pong");
+    expect("ping" in ref).toBe(true);
+  });
+
+  it("should not mistake a ReferenceError from use() for a missing module", () => {
+    const broken = { get value(): number { throw new ReferenceError("settings is not defined"); } };
+
+    expect(() => Alvamind({ name: "lazy.broken" }).use(lazy(() => broken))).toThrow("settings is not defined");
+  });
+});
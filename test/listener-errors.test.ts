@@ -0,0 +1,79 @@
+import { expect, it, describe } from "bun:test";
+import Alvamind from "../src/core/alvamind-core";
+import { ListenerError } from "../src/core/errors";
+
+describe("Alvamind Listener Error Isolation", () => {
+  interface Counter { count: number; label: string }
+
+  it("should keep running later watchers when one throws", () => {
+    const errors: ListenerError[] = [];
+    let laterRan = false;
+    const module = Alvamind<Counter>({
+      name: "listenerErrors.isolate",
+      state: { count: 0, label: "" },
+      onError: error => errors.push(error)
+    })
+      .watch("count", () => { throw new Error("boom"); })
+      .watch("count", () => { laterRan = true; });
+
+    module.state.transaction(() => module.state.set({ count: 1 }));
+
+    expect(laterRan).toBe(true);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toBeInstanceOf(ListenerError);
+    expect(errors[0].module).toBe("listenerErrors.isolate");
+    expect(errors[0].key).toBe("count");
+    expect((errors[0].cause as Error).message).toBe("boom");
+    expect(errors[0].message).toBe('[listenerErrors.isolate] Watcher for "count" threw: boom');
+  });
+
+  it("should rethrow with context once every listener ran when there is no onError", () => {
+    let laterRan = false;
+    const module = Alvamind<Counter>({ name: "listenerErrors.rethrow", state: { count: 0, label: "" } })
+      .watch("label", () => { throw new Error("bad label"); })
+      .watch("label", () => { laterRan = true; });
+
+    expect(() => module.state.transaction(() => module.state.set({ label: "x" })))
+      .toThrow('[listenerErrors.rethrow] Watcher for "label" threw: bad label');
+    expect(laterRan).toBe(true);
+    expect(module.state.get().label).toBe("x");
+  });
+
+  it("should report plain state listeners without a key", () => {
+    const errors: ListenerError[] = [];
+    const { state } = Alvamind<Counter>({
+      name: "listenerErrors.plain",
+      state: { count: 0, label: "" },
+      onError: error => errors.push(error)
+    });
+    state.add(() => { throw "nope"; });
+
+    state.transaction(() => state.set({ count: 1 }));
+
+    expect(errors[0].key).toBeUndefined();
+    expect(errors[0].message).toBe("[listenerErrors.plain] State listener threw: nope");
+  });
+
+  it("should rethrow aggregated errors in strict mode", () => {
+    const reported: ListenerError[] = [];
+    const module = Alvamind<Counter>({
+      name: "listenerErrors.strict",
+      state: { count: 0, label: "" },
+      onError: error => reported.push(error),
+      strict: true
+    })
+      .watch("count", () => { throw new Error("first"); })
+      .watch("count", () => { throw new Error("second"); });
+
+    let thrown: unknown;
+    try {
+      module.state.transaction(() => module.state.set({ count: 1 }));
+    } catch (e) {
+      thrown = e;
+    }
+
+    expect(thrown).toBeInstanceOf(AggregateError);
+    expect((thrown as AggregateError).errors.map(e => e.cause.message)).toEqual(["first", "second"]);
+    expect(reported).toHaveLength(2);
+  });
+});
@@ -0,0 +1,107 @@
+import { expect, it, describe } from "bun:test";
+import Alvamind from "../src/core/alvamind-core";
+import { TransitionError } from "../src/core/errors";
+import { machine } from "../src/core/machine";
+
+describe("Alvamind State Machines", () => {
+  type Status = "idle" | "loading" | "success" | "error";
+  interface Fetcher { status: Status; data: string | null; retries: number }
+
+  const createFetcher = (name: string) => Alvamind<Fetcher>({
+    name,
+    state: { status: "idle", data: null, retries: 0 }
+  }).derive(({ state }) => {
+    const fetcher = machine({
+      state,
+      key: "status",
+      states: ["idle", "loading", "success", "error"],
+      transitions: {
+        idle: { FETCH: "loading" },
+        loading: { RESOLVE: "success", REJECT: "error" },
+        error: { RETRY: "loading" }
+      },
+      guards: { RETRY: ({ state }) => state.retries < 2 },
+      actions: {
+        RESOLVE: ({ payload }) => ({ data: payload as string }),
+        REJECT: ({ state }) => ({ retries: state.retries + 1 })
+      }
+    });
+    return { send: fetcher.send, can: fetcher.can, status: fetcher.current };
+  });
+
+  it("should move through legal transitions and apply actions", () => {
+    const module = createFetcher("machine.happy");
+
+    expect(module.send("FETCH")).toBe("loading");
+    expect(module.send("RESOLVE", "payload")).toBe("success");
+    expect(module.state.get()).toEqual({ status: "success", data: "payload", retries: 0 });
+  });
+
+  it("should reject illegal transitions", () => {
+    const module = createFetcher("machine.illegal");
+
+    expect(module.can("RESOLVE")).toBe(false);
+    expect(() => module.send("RESOLVE")).toThrow(TransitionError);
+    expect(() => module.send("RESOLVE")).toThrow('No transition for "RESOLVE" from "idle"');
+    expect(module.status()).toBe("idle");
+  });
+
+  it("should block events whose guard fails", () => {
+    const module = createFetcher("machine.guard");
+
+    module.send("FETCH");
+    module.send("REJECT");
+    module.send("RETRY");
+    module.send("REJECT");
+
+    expect(module.state.get().retries).toBe(2);
+    expect(module.can("RETRY")).toBe(false);
+    expect(() => module.send("RETRY")).toThrow('Guard rejected "RETRY" from "error"');
+  });
+
+  it("should let watch observe each transition once", () => {
+    const seen: Array<[Status, Status]> = [];
+    const module = createFetcher("machine.watch").watch("status", (next, prev) => seen.push([prev, next]));
+
+    module.send("FETCH");
+    module.send("REJECT");
+
+    expect(seen).toEqual([["idle", "loading"], ["loading", "error"]]);
+  });
+
+  it("should validate the configured states", () => {
+    const { state } = Alvamind<Fetcher>({ name: "machine.states", state: { status: "idle", data: null, retries: 0 } });
+
+    expect(() => machine({
+      state,
+      key: "status",
+      states: ["idle", "loading"],
+      transitions: { idle: { FETCH: "success" } }
+    })).toThrow('Unknown target state "success" from "idle"');
+  });
+
+  it("should start from the configured initial state", () => {
+    const { state } = Alvamind<Fetcher>({ name: "machine.initial", state: { status: "idle", data: null, retries: 0 } });
+    const fetcher = machine({ state, key: "status", initial: "error", transitions: { error: { RETRY: "loading" } } });
+
+    expect(fetcher.current()).toBe("error");
+    expect(fetcher.send("RETRY")).toBe("loading");
+  });
+
+  it("should not commit queued updates when read inside a transaction", () => {
+    const module = createFetcher("machine.transaction");
+    const commits: Fetcher[] = [];
+    module.state.add(next => commits.push(next));
+
+    expect(() => module.state.transaction(() => {
+      module.state.set({ retries: 1 });
+      module.state.set({ status: "loading" });
+      expect(module.can("RESOLVE")).toBe(true);
+      expect(module.status()).toBe("loading");
+      throw new Error("rolled back");
+    })).toThrow("rolled back");
+
+    expect(commits).toEqual([]);
+    expect(module.state.get()).toEqual({ status: "idle", data: null, retries: 0 });
+  });
+});
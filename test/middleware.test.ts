@@ -0,0 +1,81 @@
+import { expect, it, describe } from "bun:test";
+import Alvamind from "../src/core/alvamind-core";
+
+describe("Alvamind State Middleware", () => {
+  interface Player { hp: number; name: string }
+
+  it("should see the combined patch of a batch before it commits", async () => {
+    const { state } = Alvamind<Player>({ name: "middleware.log", state: { hp: 10, name: "hero" } });
+    const log: Array<[Player, Partial<Player>]> = [];
+    state.use((prev, patch, next) => {
+      log.push([prev, patch]);
+      return next(patch);
+    });
+
+    state.set(prev => ({ hp: prev.hp - 3 }));
+    state.set({ name: "knight" });
+    await Promise.resolve();
+
+    expect(log).toEqual([[{ hp: 10, name: "hero" }, { hp: 7, name: "knight" }]]);
+    expect(state.get()).toEqual({ hp: 7, name: "knight" });
+  });
+
+  it("should let middleware rewrite the patch", () => {
+    const { state } = Alvamind<Player>({ name: "middleware.clamp", state: { hp: 10, name: "hero" } });
+    state.use((_prev, patch, next) =>
+      next("hp" in patch ? { ...patch, hp: Math.min(100, Math.max(0, patch.hp!)) } : patch));
+
+    state.transaction(() => state.set({ hp: 250 }));
+    expect(state.get().hp).toBe(100);
+
+    state.transaction(() => state.set({ hp: -5 }));
+    expect(state.get().hp).toBe(0);
+  });
+
+  it("should veto a batch without notifying listeners", () => {
+    const { state } = Alvamind<Player>({ name: "middleware.veto", state: { hp: 10, name: "hero" } });
+    let notified = 0;
+    state.add(() => notified++);
+    state.use((prev, patch, next) => patch.name === "" ? prev : next(patch));
+
+    const before = state.get();
+    state.transaction(() => state.set({ name: "" }));
+
+    expect(state.get()).toBe(before);
+    expect(notified).toBe(0);
+  });
+
+  it("should run middleware in registration order", () => {
+    const { state } = Alvamind<Player>({ name: "middleware.order", state: { hp: 10, name: "hero" } });
+    const order: string[] = [];
+    state.use((_prev, patch, next) => {
+      order.push("outer:before");
+      const result = next(patch);
+      order.push("outer:after");
+      return result;
+    });
+    state.use((_prev, patch, next) => {
+      order.push("inner");
+      return next(patch);
+    });
+
+    state.transaction(() => state.set({ hp: 1 }));
+    expect(order).toEqual(["outer:before", "inner", "outer:after"]);
+  });
+
+  it("should stop running removed middleware", () => {
+    const { state } = Alvamind<Player>({ name: "middleware.remove", state: { hp: 10, name: "hero" } });
+    let calls = 0;
+    const remove = state.use((_prev, patch, next) => {
+      calls++;
+      return next(patch);
+    });
+
+    state.transaction(() => state.set({ hp: 1 }));
+    remove();
+    state.transaction(() => state.set({ hp: 2 }));
+
+    expect(calls).toBe(1);
+    expect(state.get().hp).toBe(2);
+  });
+});
@@ -0,0 +1,61 @@
+import { expect, it, describe } from "bun:test";
+import Alvamind from "../src/core/alvamind-core";
+
+describe("Alvamind No-op Updates", () => {
+  interface Position { x: number; y: number; point: { x: number; y: number } }
+
+  it("should keep the snapshot and notify no one when nothing changed", () => {
+    const { state } = Alvamind<Position>({ name: "noop.same", state: { x: 1, y: 2, point: { x: 0, y: 0 } } });
+    let notified = 0;
+    state.add(() => notified++);
+    const before = state.get();
+
+    state.transaction(() => state.set({ x: 1 }));
+    state.transaction(() => state.set(prev => ({ y: prev.y, point: prev.point })));
+
+    expect(state.get()).toBe(before);
+    expect(notified).toBe(0);
+  });
+
+  it("should treat a batch that ends where it started as a no-op", async () => {
+    const { state } = Alvamind<Position>({ name: "noop.roundTrip", state: { x: 1, y: 2, point: { x: 0, y: 0 } } });
+    let notified = 0;
+    state.add(() => notified++);
+
+    state.set({ x: 5 });
+    state.set({ x: 1 });
+    await Promise.resolve();
+
+    expect(notified).toBe(0);
+  });
+
+  it("should still notify when any key changed", () => {
+    const { state } = Alvamind<Position>({ name: "noop.changed", state: { x: 1, y: 2, point: { x: 0, y: 0 } } });
+    let notified = 0;
+    state.add(() => notified++);
+
+    state.transaction(() => state.set({ x: 1, y: 3 }));
+
+    expect(notified).toBe(1);
+    expect(state.get().y).toBe(3);
+  });
+
+  it("should use custom per-key equality and keep the previous value", () => {
+    const { state } = Alvamind<Position>({
+      name: "noop.custom",
+      state: { x: 1, y: 2, point: { x: 0, y: 0 } },
+      equals: { point: (a, b) => a.x === b.x && a.y === b.y }
+    });
+    let notified = 0;
+    state.add(() => notified++);
+    const before = state.get();
+
+    state.transaction(() => state.set({ point: { x: 0, y: 0 } }));
+    expect(state.get()).toBe(before);
+    expect(notified).toBe(0);
+
+    state.transaction(() => state.set({ x: 9, point: { x: 0, y: 0 } }));
+    expect(state.get().point).toBe(before.point);
+    expect(notified).toBe(1);
+  });
+});
@@ -0,0 +1,177 @@
+import { expect, it, describe, afterAll } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import Alvamind from "../src/core/alvamind-core";
+import { memoryAdapter, fileAdapter, sqliteAdapter, type PersistAdapter } from "../src/core/persist";
+
+describe("Alvamind State Persistence", () => {
+  interface Prefs { theme: string; fontSize: number }
+  const dir = mkdtempSync(join(tmpdir(), "alvamind-persist-"));
+  const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+  afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+  it("should hydrate state under a key derived from the module name", async () => {
+    const store = new Map([["alvamind:persist.hydrate", JSON.stringify({ theme: "light" })]]);
+    const module = Alvamind<Prefs>({
+      name: "persist.hydrate",
+      state: { theme: "dark", fontSize: 12 },
+      persist: memoryAdapter(store)
+    });
+
+    await module.ready();
+    expect(module.state.get()).toEqual({ theme: "light", fontSize: 12 });
+  });
+
+  it("should run onStart hooks after hydration", async () => {
+    const adapter: PersistAdapter = {
+      getItem: async () => {
+        await wait(5);
+        return JSON.stringify({ theme: "solarized" });
+      },
+      setItem: () => { }
+    };
+    let seen: string | undefined;
+
+    const module = Alvamind<Prefs>({
+      name: "persist.onStart",
+      state: { theme: "dark", fontSize: 12 },
+      persist: adapter
+    }).onStart(({ state }) => {
+      seen = state.get().theme;
+    });
+
+    expect(seen).toBeUndefined();
+    await module.ready();
+    await Promise.resolve();
+    expect(seen).toBe("solarized");
+  });
+
+  it("should report a failed hydration only through ready()", async () => {
+    const unhandled: unknown[] = [];
+    const onRejection = (reason: unknown) => unhandled.push(reason);
+    process.on("unhandledRejection", onRejection);
+    const adapter: PersistAdapter = {
+      getItem: async () => { throw new Error("disk gone"); },
+      setItem: async () => { throw new Error("disk full"); }
+    };
+
+    const module = Alvamind<Prefs>({ name: "persist.failing", state: { theme: "dark", fontSize: 12 }, persist: adapter });
+    await wait(10);
+    module.stop();
+    await wait(10);
+    process.off("unhandledRejection", onRejection);
+
+    expect(unhandled).toEqual([]);
+    await expect(module.ready()).rejects.toThrow("disk gone");
+  });
+
+  it("should not leave failed throttled writes unhandled", async () => {
+    const unhandled: unknown[] = [];
+    const onRejection = (reason: unknown) => unhandled.push(reason);
+    process.on("unhandledRejection", onRejection);
+    const adapter: PersistAdapter = {
+      getItem: () => null,
+      setItem: async () => { throw new Error("disk full"); }
+    };
+
+    const module = Alvamind<Prefs>({ name: "persist.failingWrite", state: { theme: "dark", fontSize: 12 }, persist: { adapter, throttle: 1 } });
+    await module.ready();
+    module.state.transaction(() => module.state.set({ theme: "light" }));
+    await wait(20);
+    process.off("unhandledRejection", onRejection);
+
+    expect(unhandled).toEqual([]);
+  });
+
+  it("should coalesce writes within the throttle window", async () => {
+    const writes: string[] = [];
+    const adapter: PersistAdapter = {
+      getItem: () => null,
+      setItem: (_key, value) => void writes.push(value)
+    };
+    const module = Alvamind<Prefs>({
+      name: "persist.throttle",
+      state: { theme: "dark", fontSize: 12 },
+      persist: { adapter, throttle: 20 }
+    });
+    await module.ready();
+
+    module.state.transaction(() => module.state.set({ fontSize: 13 }));
+    module.state.transaction(() => module.state.set({ fontSize: 14 }));
+    await wait(40);
+
+    expect(writes).toEqual([JSON.stringify({ version: 0, state: { theme: "dark", fontSize: 14 } })]);
+  });
+
+  it("should write pending changes when the module stops", async () => {
+    const store = new Map<string, string>();
+    const module = Alvamind<Prefs>({
+      name: "persist.stop",
+      state: { theme: "dark", fontSize: 12 },
+      persist: { adapter: memoryAdapter(store), key: "prefs", throttle: 1000 }
+    });
+    await module.ready();
+
+    module.state.transaction(() => module.state.set({ theme: "light" }));
+    module.stop();
+    await wait(0);
+
+    expect(JSON.parse(store.get("prefs")!).state).toEqual({ theme: "light", fontSize: 12 });
+  });
+
+  it("should round-trip state through a JSON file", async () => {
+    const path = join(dir, "state.json");
+    const first = Alvamind<Prefs>({
+      name: "persist.file.a",
+      state: { theme: "dark", fontSize: 12 },
+      persist: { adapter: fileAdapter(path), key: "prefs", throttle: 0 }
+    });
+    await first.ready();
+    first.state.transaction(() => first.state.set({ fontSize: 16 }));
+    await wait(20);
+
+    expect(JSON.parse(readFileSync(path, "utf8"))).toEqual({ prefs: { version: 0, state: { theme: "dark", fontSize: 16 } } });
+
+    const second = Alvamind<Prefs>({
+      name: "persist.file.b",
+      state: { theme: "dark", fontSize: 12 },
+      persist: { adapter: fileAdapter(path), key: "prefs" }
+    });
+    await second.ready();
+    expect(second.state.get().fontSize).toBe(16);
+  });
+
+  it("should store state in bun:sqlite", async () => {
+    const adapter = sqliteAdapter(join(dir, "state.db"));
+    await adapter.setItem("alvamind:persist.sqlite", JSON.stringify({ fontSize: 20 }));
+
+    const module = Alvamind<Prefs>({
+      name: "persist.sqlite",
+      state: { theme: "dark", fontSize: 12 },
+      persist: adapter
+    });
+    await module.ready();
+    expect(module.state.get().fontSize).toBe(20);
+
+    module.state.transaction(() => module.state.set({ theme: "light" }));
+    module.stop();
+    await wait(10);
+    expect(JSON.parse((await adapter.getItem("alvamind:persist.sqlite"))!).state).toEqual({ theme: "light", fontSize: 20 });
+  });
+
+  it("should migrate an older persisted snapshot while hydrating", async () => {
+    const store = new Map([["alvamind:persist.migrate", JSON.stringify({ version: 1, state: { theme: "dark", size: 10 } })]]);
+    const module = Alvamind<Prefs>({
+      name: "persist.migrate",
+      state: { theme: "dark", fontSize: 12 },
+      persist: memoryAdapter(store),
+      version: 2,
+      migrations: { 2: ({ size, ...rest }) => ({ ...rest, fontSize: size }) }
+    });
+
+    await module.ready();
+    expect(module.state.get()).toEqual({ theme: "dark", fontSize: 10 });
+  });
+});
@@ -0,0 +1,114 @@
+import { expect, it, describe } from "bun:test";
+import Alvamind from "../src/core/alvamind-core";
+import { UpdateError, ValidationError } from "../src/core/errors";
+import type { StandardIssue, StandardSchemaV1 } from "../src/core/schema";
+
+// Hand-rolled Standard Schema, standing in for zod/valibot/arktype
+const schema = <T>(check: (value: any) => StandardIssue[], transform = (v: any) => v as T): StandardSchemaV1<unknown, T> => ({
+  "~standard": {
+    version: 1,
+    vendor: "test",
+    validate: value => {
+      const issues = check(value);
+      return issues.length ? { issues } : { value: transform(value) };
+    }
+  }
+});
+
+describe("Alvamind Schema Validation", () => {
+  interface Cart { items: Array<{ sku: string; qty: number }> }
+
+  const cartSchema = schema<Cart>(value => (value.items as Cart["items"]).flatMap((item, i) =>
+    item.qty > 0 ? [] : [{ message: "Quantity must be positive", path: ["items", i, { key: "qty" }] }]
+  ));
+
+  it("should validate the initial state at construction", () => {
+    expect(() => Alvamind<Cart>({
+      name: "schema.initial",
+      state: { items: [{ sku: "a", qty: 0 }] },
+      schema: { state: cartSchema }
+    })).toThrow("[schema.initial] Invalid state at items.0.qty: Quantity must be positive");
+  });
+
+  it("should reject invalid committed updates and keep the previous snapshot", () => {
+    const { state } = Alvamind<Cart>({
+      name: "schema.update",
+      state: { items: [] },
+      schema: { state: cartSchema }
+    });
+    let notified = 0;
+    state.add(() => notified++);
+
+    let error: unknown;
+    try {
+      state.transaction(() => state.set({ items: [{ sku: "a", qty: 1 }, { sku: "b", qty: -1 }] }));
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect((error as ValidationError).module).toBe("schema.update");
+    expect((error as ValidationError).target).toBe("state");
+    expect((error as ValidationError).path).toBe("items.1.qty");
+    expect(state.get().items).toEqual([]);
+    expect(notified).toBe(0);
+
+    state.transaction(() => state.set({ items: [{ sku: "a", qty: 2 }] }));
+    expect(state.get().items).toHaveLength(1);
+  });
+
+  it("should drop only the invalid update of a batched commit and report it to onError", async () => {
+    interface Order extends Cart { note: string }
+    const errors: unknown[] = [];
+    const { state } = Alvamind<Order>({
+      name: "schema.batched",
+      state: { items: [], note: "" },
+      schema: { state: schema<Order>(value => (cartSchema["~standard"].validate(value) as { issues?: StandardIssue[] }).issues ?? []) },
+      onError: e => errors.push(e)
+    });
+
+    state.set({ note: "gift" });
+    state.set({ items: [{ sku: "b", qty: -1 }] });
+    state.set(prev => ({ note: `${prev.note} wrap` }));
+    await Promise.resolve();
+
+    expect(state.get()).toEqual({ items: [], note: "gift wrap" });
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toBeInstanceOf(UpdateError);
+    expect((errors[0] as UpdateError).cause).toBeInstanceOf(ValidationError);
+    expect((errors[0] as Error).message).toBe("[schema.batched] Update rejected: Invalid state at items.0.qty: Quantity must be positive");
+  });
+
+  it("should validate config and use the parsed output", () => {
+    interface Config { port: number }
+    const configSchema = schema<Config>(
+      value => Number.isNaN(Number(value.port)) ? [{ message: "Expected a number", path: ["port"] }] : [],
+      value => ({ port: Number(value.port) })
+    );
+
+    const module = Alvamind<{}, Config>({
+      name: "schema.config",
+      config: { port: "8080" as unknown as number },
+      schema: { config: configSchema }
+    });
+    expect(module.config.port).toBe(8080);
+
+    expect(() => Alvamind<{}, Config>({
+      name: "schema.badConfig",
+      config: { port: "http" as unknown as number },
+      schema: { config: configSchema }
+    })).toThrow("[schema.badConfig] Invalid config at port: Expected a number");
+  });
+
+  it("should refuse asynchronous state schemas", () => {
+    const asyncSchema: StandardSchemaV1<unknown, Cart> = {
+      "~standard": { version: 1, vendor: "test", validate: async value => ({ value: value as Cart }) }
+    };
+
+    expect(() => Alvamind<Cart>({
+      name: "schema.async",
+      state: { items: [] },
+      schema: { state: asyncSchema }
+    })).toThrow("state schema must validate synchronously");
+  });
+});
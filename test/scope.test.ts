@@ -0,0 +1,82 @@
+import { expect, it, describe } from "bun:test";
+import Alvamind from "../src/core/alvamind-core";
+
+interface User { id: number; name: string }
+
+describe("Alvamind Scopes", () => {
+  const createApi = (name: string) => Alvamind({ name, state: { requests: 0 }, config: { prefix: "api" } })
+    .derive(() => ({
+      logger: { log: (message: string) => `[app] ${message}` },
+      currentUser: undefined as User | undefined
+    }))
+    .derive(({ config }) => ({ route: (path: string) => `/${config.prefix}/${path}` }));
+
+  it("should inherit parent members and replace overridden ones", () => {
+    const api = createApi("scope.inherit");
+    const request = api.scope({
+      currentUser: { id: 1, name: "Ada" },
+      logger: { log: (message: string) => `[req 1] ${message}` }
+    });
+
+    expect(request.route("users")).toBe("/api/users");
+    expect(request.currentUser.name).toBe("Ada");
+    expect(request.logger.log("hi")).toBe("[req 1] hi");
+    expect(request.config).toBe(api.config);
+
+    expect(api.currentUser).toBeUndefined();
+    expect(api.logger.log("hi")).toBe("[app] hi");
+  });
+
+  it("should derive from scoped values and share the parent state", () => {
+    const api = createApi("scope.derive");
+    const handler = api
+      .scope({ currentUser: { id: 7, name: "Grace" } })
+      .derive(({ currentUser, state }) => ({
+        greet: () => {
+          state.transaction(() => state.set(prev => ({ requests: prev.requests + 1 })));
+          return `hello ${currentUser.name}`;
+        }
+      }));
+
+    expect(handler.greet()).toBe("hello Grace");
+    expect(api.state.get().requests).toBe(1);
+    expect((api as { greet?: unknown }).greet).toBeUndefined();
+  });
+
+  it("should only run its own onStop hooks and watchers when stopped", () => {
+    const events: string[] = [];
+    const api = createApi("scope.stop").onStop(() => events.push("app stopped"));
+    const request = api
+      .scope({ currentUser: { id: 2, name: "Alan" } })
+      .watch("requests", n => events.push(`scoped saw ${n}`))
+      .onStop(() => events.push("transaction closed"));
+    api.watch("requests", n => events.push(`app saw ${n}`));
+
+    api.state.transaction(() => api.state.set({ requests: 1 }));
+    request.stop();
+    api.state.transaction(() => api.state.set({ requests: 2 }));
+
+    expect(events).toEqual(["scoped saw 1", "app saw 1", "transaction closed", "app saw 2"]);
+  });
+
+  it("should nest scopes", () => {
+    const api = createApi("scope.nested");
+    const request = api.scope({ currentUser: { id: 3, name: "Linus" } });
+    const step = request.scope({ logger: { log: (message: string) => `[step] ${message}` } });
+
+    expect(step.currentUser.name).toBe("Linus");
+    expect(step.logger.log("ok")).toBe("[step] ok");
+    expect(request.logger.log("ok")).toBe("[app] ok");
+  });
+
+  it("should run a shared derive factory again for every scope", () => {
+    const api = createApi("scope.shared-factory");
+    const greeter = ({ currentUser }: { currentUser: User }) => ({ greet: () => `hi ${currentUser.name}` });
+
+    const ann = api.scope({ currentUser: { id: 4, name: "Ann" } }).derive(greeter);
+    const bob = api.scope({ currentUser: { id: 5, name: "Bob" } }).derive(greeter);
+
+    expect(ann.greet()).toBe("hi Ann");
+    expect(bob.greet()).toBe("hi Bob");
+  });
+});
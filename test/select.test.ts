@@ -0,0 +1,73 @@
+import { expect, it, describe } from "bun:test";
+import Alvamind from "../src/core/alvamind-core";
+
+describe("Alvamind Selectors", () => {
+  interface Item { id: number; price: number }
+  interface CartState { items: Item[]; coupon: string }
+
+  it("should memoize the selected value per snapshot", () => {
+    const { state } = Alvamind<CartState>({ name: "select.memo", state: { items: [{ id: 1, price: 10 }], coupon: "" } });
+    let runs = 0;
+    const total = state.select(s => {
+      runs++;
+      return s.items.reduce((sum, item) => sum + item.price, 0);
+    });
+
+    expect(total()).toBe(10);
+    expect(total()).toBe(10);
+    expect(runs).toBe(1);
+
+    state.set(prev => ({ items: [...prev.items, { id: 2, price: 5 }] }));
+    state.flush();
+    expect(total()).toBe(15);
+    expect(runs).toBe(2);
+  });
+
+  it("should keep the previous result while the equality function holds", () => {
+    const { state } = Alvamind<CartState>({ name: "select.equality", state: { items: [{ id: 1, price: 10 }], coupon: "" } });
+    const ids = state.select(
+      s => s.items.map(item => item.id),
+      (a, b) => a.length === b.length && a.every((id, i) => id === b[i])
+    );
+    const first = ids();
+
+    state.set({ coupon: "SAVE10" });
+    state.flush();
+
+    expect(ids()).toBe(first);
+  });
+
+  it("should only fire watchSelect when the selected value changes", () => {
+    const calls: Array<[number, number]> = [];
+    const module = Alvamind<CartState>({ name: "select.watch", state: { items: [], coupon: "" } })
+      .watchSelect(
+        s => s.items.reduce((sum, item) => sum + item.price, 0),
+        (total, prev) => calls.push([total, prev])
+      );
+
+    module.state.set({ coupon: "SAVE10" });
+    module.state.flush();
+    expect(calls).toEqual([]);
+
+    module.state.set({ items: [{ id: 1, price: 20 }] });
+    module.state.flush();
+    expect(calls).toEqual([[20, 0]]);
+  });
+
+  it("should accept a custom equality for watchSelect", () => {
+    let fired = 0;
+    const module = Alvamind<CartState>({ name: "select.watchEquals", state: { items: [], coupon: "" } })
+      .watchSelect(
+        s => ({ count: s.items.length }),
+        () => fired++,
+        { equals: (a, b) => a.count === b.count }
+      );
+
+    module.state.set({ coupon: "A" });
+    module.state.flush();
+    module.state.set({ items: [{ id: 1, price: 1 }] });
+    module.state.flush();
+
+    expect(fired).toBe(1);
+  });
+});
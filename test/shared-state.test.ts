@@ -0,0 +1,64 @@
+import { expect, it, describe } from "bun:test";
+import Alvamind from "../src/core/alvamind-core";
+
+describe("Alvamind State Isolation", () => {
+  interface Counter { count: number }
+
+  it("should give modules created from the same literal independent stores", () => {
+    const init = { count: 0 };
+    const a = Alvamind<Counter>({ name: "isolation.a", state: init });
+    const b = Alvamind<Counter>({ name: "isolation.b", state: init });
+
+    a.state.transaction(() => a.state.set({ count: 1 }));
+
+    expect(a.state).not.toBe(b.state);
+    expect(a.state.get().count).toBe(1);
+    expect(b.state.get().count).toBe(0);
+    expect(init.count).toBe(0);
+  });
+
+  it("should not notify watchers of another module", () => {
+    const init = { count: 0 };
+    let fired = false;
+    Alvamind<Counter>({ name: "isolation.watched", state: init }).watch("count", () => { fired = true; });
+    const other = Alvamind<Counter>({ name: "isolation.other", state: init });
+
+    other.state.transaction(() => other.state.set({ count: 5 }));
+
+    expect(fired).toBe(false);
+  });
+
+  it("should share one store between modules that opt in with the same key", () => {
+    const seen: number[] = [];
+    const writer = Alvamind<Counter>({ name: "shared.writer", state: { count: 0 }, sharedState: "counter" });
+    const reader = Alvamind<Counter>({ name: "shared.reader", state: { count: 99 }, sharedState: "counter" })
+      .watch("count", n => seen.push(n));
+
+    writer.state.transaction(() => writer.state.set({ count: 3 }));
+
+    expect(reader.state).toBe(writer.state);
+    expect(reader.state.get().count).toBe(3);
+    expect(seen).toEqual([3]);
+  });
+
+  it("should keep different shared keys apart", () => {
+    const a = Alvamind<Counter>({ name: "shared.keyA", state: { count: 0 }, sharedState: "keyA" });
+    const b = Alvamind<Counter>({ name: "shared.keyB", state: { count: 0 }, sharedState: "keyB" });
+
+    expect(a.state).not.toBe(b.state);
+  });
+
+  it("should keep other modules' streams open when one sharing module stops", async () => {
+    const writer = Alvamind<Counter>({ name: "shared.stop.writer", state: { count: 0 }, sharedState: "stopCounter" });
+    const reader = Alvamind<Counter>({ name: "shared.stop.reader", state: { count: 0 }, sharedState: "stopCounter" });
+    const readerCounts = reader.watchAsync("count");
+    const writerCounts = writer.watchAsync("count");
+
+    writer.stop();
+    reader.state.transaction(() => reader.state.set({ count: 1 }));
+
+    expect(await writerCounts.next()).toEqual({ value: undefined, done: true });
+    expect(await readerCounts.next()).toEqual({ value: 1, done: false });
+    reader.stop();
+  });
+});
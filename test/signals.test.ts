@@ -0,0 +1,190 @@
+import { expect, it, describe } from "bun:test";
+import Alvamind from "../src/core/alvamind-core";
+import { ListenerError } from "../src/core/errors";
+import { autorun, batch, computed, signal, untracked } from "../src/core/signals";
+
+describe("Alvamind Signals", () => {
+  it("should re-run computeds only when a value they read changes", () => {
+    const first = signal("Ada");
+    const last = signal("Lovelace");
+    const showLast = signal(false);
+    let runs = 0;
+    const name = computed(() => {
+      runs++;
+      return showLast.get() ? `${first.get()} ${last.get()}` : first.get();
+    });
+
+    expect(name.get()).toBe("Ada");
+    last.set("Byron");
+    expect(name.get()).toBe("Ada");
+    expect(runs).toBe(1);
+
+    showLast.set(true);
+    expect(name.get()).toBe("Ada Byron");
+    expect(runs).toBe(2);
+  });
+
+  it("should run autoruns once per batch and skip unchanged computeds", () => {
+    const count = signal(1);
+    const parity = computed(() => count.get() % 2);
+    const seen: number[] = [];
+    const stop = autorun(() => void seen.push(parity.get()));
+
+    batch(() => {
+      count.set(2);
+      count.set(4);
+    });
+    count.set(6);
+    count.set(7);
+    stop();
+    count.set(8);
+
+    expect(seen).toEqual([1, 0, 1]);
+  });
+
+  it("should not track reads inside untracked", () => {
+    const tracked = signal(0);
+    const ignored = signal(0);
+    let runs = 0;
+    autorun(() => {
+      runs++;
+      tracked.get();
+      untracked(() => ignored.get());
+    });
+
+    ignored.set(1);
+    tracked.set(1);
+
+    expect(runs).toBe(2);
+  });
+
+  it("should report computed cycles", () => {
+    const self: { value?: ReturnType<typeof computed<number>> } = {};
+    self.value = computed(() => self.value!.get() + 1);
+
+    expect(() => self.value!.get()).toThrow("Cycle detected");
+  });
+});
+
+describe("Alvamind Reactive State", () => {
+  interface Board { score: number; label: string; items: string[] }
+  const createBoard = (name: string) => Alvamind<Board>({
+    name,
+    reactive: true,
+    state: { score: 0, label: "", items: [] }
+  });
+
+  it("should re-run selectors only when the keys they read change", () => {
+    const { state } = createBoard("signals.select");
+    let runs = 0;
+    const count = state.select(s => {
+      runs++;
+      return s.items.length;
+    });
+
+    expect(count()).toBe(0);
+    state.transaction(() => state.set({ label: "renamed", score: 3 }));
+    expect(count()).toBe(0);
+    expect(runs).toBe(1);
+
+    state.transaction(() => state.set({ items: ["a"] }));
+    expect(count()).toBe(1);
+    expect(runs).toBe(2);
+  });
+
+  it("should re-run derived getters built with select only when their keys change", () => {
+    let runs = 0;
+    const module = createBoard("signals.derive").derive(({ state }) => ({
+      itemCount: state.select(s => {
+        runs++;
+        return s.items.length;
+      })
+    }));
+
+    expect(module.itemCount()).toBe(0);
+    module.state.transaction(() => module.state.set({ score: 5 }));
+    expect(module.itemCount()).toBe(0);
+    expect(runs).toBe(1);
+
+    module.state.transaction(() => module.state.set({ items: ["a", "b"] }));
+    expect(module.itemCount()).toBe(2);
+    expect(runs).toBe(2);
+  });
+
+  it("should only wake watchers whose key changed", () => {
+    const calls: string[] = [];
+    const module = createBoard("signals.watch")
+      .watch("score", (n, p) => calls.push(`score ${p}->${n}`))
+      .watch("label", n => calls.push(`label ${n}`));
+
+    module.state.transaction(() => module.state.set({ score: 1 }));
+    module.state.transaction(() => module.state.set({ score: 2, label: "two" }));
+
+    expect(calls).toEqual(["score 0->1", "score 1->2", "label two"]);
+  });
+
+  it("should feed watchSelect from the selector's dependencies", () => {
+    const seen: number[] = [];
+    let runs = 0;
+    const module = createBoard("signals.watchSelect").watchSelect(s => {
+      runs++;
+      return s.score * 10;
+    }, n => seen.push(n));
+
+    module.state.transaction(() => module.state.set({ label: "ignored" }));
+    module.state.transaction(() => module.state.set({ score: 4 }));
+
+    expect(seen).toEqual([40]);
+    expect(runs).toBe(2);
+  });
+
+  it("should support unwatch, once and stop", () => {
+    let calls = 0;
+    const onScore = () => calls++;
+    const module = createBoard("signals.lifecycle")
+      .watch("score", onScore)
+      .watch("label", () => calls++, { once: true });
+
+    module.state.transaction(() => module.state.set({ score: 1, label: "a" }));
+    module.unwatch(onScore);
+    module.state.transaction(() => module.state.set({ score: 2, label: "b" }));
+    expect(calls).toBe(2);
+
+    const stopped = createBoard("signals.stop").watch("score", () => calls++);
+    stopped.stop();
+    stopped.state.transaction(() => stopped.state.set({ score: 1 }));
+    expect(calls).toBe(2);
+  });
+
+  it("should report watcher failures as ListenerErrors", () => {
+    const errors: ListenerError[] = [];
+    const seen: number[] = [];
+    const module = Alvamind<Board>({
+      name: "signals.errors",
+      reactive: true,
+      state: { score: 0, label: "", items: [] },
+      onError: e => errors.push(e)
+    })
+      .watch("score", () => { throw new Error("boom"); })
+      .watch("score", n => seen.push(n));
+
+    module.state.transaction(() => module.state.set({ score: 1 }));
+
+    expect(seen).toEqual([1]);
+    expect(errors).toHaveLength(1);
+    expect(errors[0].key).toBe("score");
+    expect(errors[0].message).toBe('[signals.errors] Watcher for "score" threw: boom');
+  });
+
+  it("should expose key signals to autorun", () => {
+    const { state } = createBoard("signals.autorun");
+    const seen: string[] = [];
+    const stop = autorun(() => void seen.push(state.signal("label").get()));
+
+    state.transaction(() => state.set({ score: 1 }));
+    state.transaction(() => state.set({ label: "hello" }));
+    stop();
+
+    expect(seen).toEqual(["", "hello"]);
+  });
+});
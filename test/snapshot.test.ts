@@ -0,0 +1,94 @@
+import { expect, it, describe } from "bun:test";
+import Alvamind from "../src/core/alvamind-core";
+import { MigrationError } from "../src/core/errors";
+
+describe("Alvamind State Snapshots", () => {
+  interface UserV3 { firstName: string; lastName: string; roles: string[] }
+
+  const migrations = {
+    2: (s: { name: string; role: string }) => ({ name: s.name, roles: [s.role] }),
+    3: (s: { name: string; roles: string[] }) => {
+      const [firstName, lastName = ""] = s.name.split(" ");
+      return { firstName, lastName, roles: s.roles };
+    }
+  };
+
+  it("should stamp snapshots with the state version", () => {
+    const { state } = Alvamind<UserV3>({
+      name: "snapshot.version",
+      state: { firstName: "Ada", lastName: "Lovelace", roles: [] },
+      version: 3,
+      migrations
+    });
+
+    const snapshot = state.snapshot();
+    expect(snapshot).toEqual({ version: 3, state: { firstName: "Ada", lastName: "Lovelace", roles: [] } });
+    expect(snapshot.state).toBe(state.get());
+    expect(Object.isFrozen(snapshot)).toBe(true);
+  });
+
+  it("should restore a snapshot of the current version synchronously", () => {
+    const { state } = Alvamind<UserV3>({
+      name: "snapshot.restore",
+      state: { firstName: "", lastName: "", roles: [] },
+      version: 3,
+      migrations
+    });
+    let notified = 0;
+    state.add(() => notified++);
+
+    state.restore({ version: 3, state: { firstName: "Grace", lastName: "Hopper", roles: ["admin"] } });
+
+    expect(state.get().firstName).toBe("Grace");
+    expect(notified).toBe(1);
+  });
+
+  it("should drop keys the restored snapshot does not have", () => {
+    const { state } = Alvamind<{ count: number; draft?: string }>({
+      name: "snapshot.replace",
+      state: { count: 1, draft: "unsaved" }
+    });
+
+    state.restore({ version: 0, state: { count: 2 } });
+
+    expect(state.get()).toEqual({ count: 2 });
+    expect("draft" in state.get()).toBe(false);
+  });
+
+  it("should upgrade old snapshots step by step", () => {
+    const { state } = Alvamind<UserV3>({
+      name: "snapshot.migrate",
+      state: { firstName: "", lastName: "", roles: [] },
+      version: 3,
+      migrations
+    });
+
+    state.restore({ version: 1, state: { name: "Alan Turing", role: "admin" } });
+
+    expect(state.get()).toEqual({ firstName: "Alan", lastName: "Turing", roles: ["admin"] });
+  });
+
+  it("should fail clearly when a migration is missing", () => {
+    const { state } = Alvamind<UserV3>({
+      name: "snapshot.missing",
+      state: { firstName: "", lastName: "", roles: [] },
+      version: 3,
+      migrations: { 3: migrations[3] }
+    });
+
+    expect(() => state.restore({ version: 1, state: { name: "x", role: "y" } }))
+      .toThrow("[snapshot.missing] Missing migration from version 1 to 2");
+    expect(() => state.restore({ version: 1, state: {} })).toThrow(MigrationError);
+    expect(state.get().firstName).toBe("");
+  });
+
+  it("should reject snapshots newer than the state", () => {
+    const { state } = Alvamind<UserV3>({
+      name: "snapshot.newer",
+      state: { firstName: "", lastName: "", roles: [] },
+      version: 3
+    });
+
+    expect(() => state.restore({ version: 4, state: {} })).toThrow("newer than state version 3");
+  });
+});
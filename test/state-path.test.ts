@@ -0,0 +1,84 @@
+import { expect, it, describe } from "bun:test";
+import Alvamind from "../src/core/alvamind-core";
+
+describe("Alvamind Nested State Updates", () => {
+  interface Address { city: string; zip: string }
+  interface Profile { name: string; address: Address }
+  interface AppState {
+    user: { profile: Profile; tags: string[] };
+    settings: { theme: string };
+  }
+
+  const initial = (): AppState => ({
+    user: { profile: { name: "Ada", address: { city: "London", zip: "N1" } }, tags: ["admin"] },
+    settings: { theme: "dark" }
+  });
+
+  it("should update a nested value by path", () => {
+    const { state } = Alvamind<AppState>({ name: "statePath.setIn", state: initial() });
+
+    state.setIn(["user", "profile", "address", "city"], "Paris");
+    state.flush();
+
+    expect(state.get().user.profile.address).toEqual({ city: "Paris", zip: "N1" });
+    expect(state.get().user.profile.name).toBe("Ada");
+  });
+
+  it("should share untouched branches and freeze copied ones", () => {
+    const { state } = Alvamind<AppState>({ name: "statePath.sharing", state: initial() });
+    const before = state.get();
+
+    state.setIn(["user", "profile", "name"], "Grace");
+    state.flush();
+    const after = state.get();
+
+    expect(after.settings).toBe(before.settings);
+    expect(after.user.tags).toBe(before.user.tags);
+    expect(after.user.profile.address).toBe(before.user.profile.address);
+    expect(after.user.profile).not.toBe(before.user.profile);
+    expect(Object.isFrozen(after.user)).toBe(true);
+    expect(Object.isFrozen(after.user.profile)).toBe(true);
+    expect(before.user.profile.name).toBe("Ada");
+  });
+
+  it("should update array items by index", () => {
+    const { state } = Alvamind<AppState>({ name: "statePath.arrays", state: initial() });
+
+    state.setIn(["user", "tags", 1], "editor");
+    state.flush();
+
+    expect(state.get().user.tags).toEqual(["admin", "editor"]);
+    expect(Array.isArray(state.get().user.tags)).toBe(true);
+  });
+
+  it("should compose path updates within a batch", async () => {
+    const { state } = Alvamind<AppState>({ name: "statePath.batch", state: initial() });
+
+    state.setIn(["user", "profile", "address", "city"], "Berlin");
+    state.setIn(["user", "profile", "address", "zip"], "10115");
+    await Promise.resolve();
+
+    expect(state.get().user.profile.address).toEqual({ city: "Berlin", zip: "10115" });
+  });
+
+  it("should deep merge nested objects", () => {
+    const { state } = Alvamind<AppState>({ name: "statePath.merge", state: initial() });
+    const before = state.get();
+
+    state.merge({ user: { profile: { address: { zip: "E2" } } } });
+    state.flush();
+
+    expect(state.get().user.profile.address).toEqual({ city: "London", zip: "E2" });
+    expect(state.get().user.tags).toBe(before.user.tags);
+    expect(state.get().settings).toBe(before.settings);
+  });
+
+  it("should replace arrays when deep merging", () => {
+    const { state } = Alvamind<AppState>({ name: "statePath.mergeArrays", state: initial() });
+
+    state.merge({ user: { tags: ["guest"] } });
+    state.flush();
+
+    expect(state.get().user.tags).toEqual(["guest"]);
+  });
+});
@@ -0,0 +1,69 @@
+import { expect, it, describe } from "bun:test";
+import Alvamind from "../src/core/alvamind-core";
+
+describe("Alvamind State Updates", () => {
+  interface Counter { count: number; label: string }
+
+  it("should accept functional updaters that compose within a batch", async () => {
+    const { state } = Alvamind<Counter>({ name: "state.updaters", state: { count: 0, label: "a" } });
+
+    state.set(prev => ({ count: prev.count + 1 }));
+    state.set(prev => ({ count: prev.count + 1 }));
+    state.set({ label: "b" });
+    expect(state.get().count).toBe(0);
+
+    await Promise.resolve();
+    expect(state.get()).toEqual({ count: 2, label: "b" });
+  });
+
+  it("should commit pending updates synchronously on flush", () => {
+    const { state } = Alvamind<Counter>({ name: "state.flush", state: { count: 0, label: "a" } });
+    const calls: Array<[number, number]> = [];
+    state.add((n, p) => calls.push([n.count, p.count]));
+
+    state.set({ count: 5 });
+    state.flush();
+
+    expect(state.get().count).toBe(5);
+    expect(calls).toEqual([[5, 0]]);
+  });
+
+  it("should apply a transaction synchronously and notify listeners once", () => {
+    const { state } = Alvamind<Counter>({ name: "state.transaction", state: { count: 0, label: "a" } });
+    let notified = 0;
+    state.add(() => notified++);
+
+    const result = state.transaction(() => {
+      state.set(prev => ({ count: prev.count + 10 }));
+      state.set(prev => ({ count: prev.count * 2 }));
+      return "done";
+    });
+
+    expect(result).toBe("done");
+    expect(state.get().count).toBe(20);
+    expect(notified).toBe(1);
+  });
+
+  it("should only commit when the outermost transaction ends", () => {
+    const { state } = Alvamind<Counter>({ name: "state.nestedTransaction", state: { count: 0, label: "a" } });
+
+    state.transaction(() => {
+      state.set({ count: 1 });
+      state.transaction(() => state.set({ label: "inner" }));
+      expect(state.get().label).toBe("a");
+    });
+
+    expect(state.get()).toEqual({ count: 1, label: "inner" });
+  });
+
+  it("should discard a transaction's updates when it throws", () => {
+    const { state } = Alvamind<Counter>({ name: "state.failedTransaction", state: { count: 0, label: "a" } });
+
+    state.set({ label: "queued" });
+    expect(() => state.transaction(() => {
+      state.set({ count: 3 });
+      throw new Error("boom");
+    })).toThrow("boom");
+    expect(state.get()).toEqual({ count: 0, label: "queued" });
+  });
+});
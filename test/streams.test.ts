@@ -0,0 +1,85 @@
+import { expect, it, describe } from "bun:test";
+import Alvamind from "../src/core/alvamind-core";
+import { $$observable } from "../src/core/streams";
+
+describe("Alvamind State Streams", () => {
+  interface Counter { count: number; label: string }
+
+  it("should yield committed snapshots from the async iterator", async () => {
+    const { state } = Alvamind<Counter>({ name: "streams.iterator", state: { count: 0, label: "a" } });
+    const iterator = state[Symbol.asyncIterator]();
+
+    state.transaction(() => state.set({ count: 1 }));
+    state.transaction(() => state.set({ count: 2 }));
+
+    expect((await iterator.next()).value).toEqual({ count: 1, label: "a" });
+    expect((await iterator.next()).value).toEqual({ count: 2, label: "a" });
+    await iterator.return!();
+  });
+
+  it("should stop listening when a for-await loop breaks", async () => {
+    const { state } = Alvamind<Counter>({ name: "streams.break", state: { count: 0, label: "a" } });
+    const seen: number[] = [];
+
+    const loop = (async () => {
+      for await (const snapshot of state) {
+        seen.push(snapshot.count);
+        if (snapshot.count === 2) break;
+      }
+    })();
+    state.transaction(() => state.set({ count: 1 }));
+    await Promise.resolve();
+    state.transaction(() => state.set({ count: 2 }));
+    await loop;
+    state.transaction(() => state.set({ count: 3 }));
+
+    expect(seen).toEqual([1, 2]);
+  });
+
+  it("should expose an interop Observable", () => {
+    const { state } = Alvamind<Counter>({ name: "streams.observable", state: { count: 0, label: "a" } });
+    const observable = state.toObservable();
+    const seen: number[] = [];
+
+    expect(observable[$$observable]()).toBe(observable);
+
+    const subscription = observable.subscribe(snapshot => seen.push(snapshot.count));
+    state.transaction(() => state.set({ count: 1 }));
+    subscription.unsubscribe();
+    state.transaction(() => state.set({ count: 2 }));
+
+    expect(seen).toEqual([1]);
+    expect(subscription.closed).toBe(true);
+  });
+
+  it("should yield the values of a single key with watchAsync", async () => {
+    const module = Alvamind<Counter>({ name: "streams.watchAsync", state: { count: 0, label: "a" } });
+    const counts = module.watchAsync("count");
+
+    module.state.transaction(() => module.state.set({ label: "b" }));
+    module.state.transaction(() => module.state.set({ count: 5 }));
+    module.state.transaction(() => module.state.set({ count: 6 }));
+
+    expect((await counts.next()).value).toBe(5);
+    expect((await counts.next()).value).toBe(6);
+  });
+
+  it("should end iterators and complete observers when the module stops", async () => {
+    const module = Alvamind<Counter>({ name: "streams.stop", state: { count: 0, label: "a" } });
+    const counts = module.watchAsync("count");
+    const snapshots = module.state[Symbol.asyncIterator]();
+    let completed = false;
+    module.state.toObservable().subscribe({ complete: () => { completed = true; } });
+
+    module.state.transaction(() => module.state.set({ count: 1 }));
+    const pending = snapshots.next();
+    await pending;
+    const waiting = snapshots.next();
+    module.stop();
+
+    expect((await counts.next()).value).toBe(1);
+    expect((await counts.next()).done).toBe(true);
+    expect((await waiting).done).toBe(true);
+    expect(completed).toBe(true);
+  });
+});
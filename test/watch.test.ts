@@ -0,0 +1,66 @@
+import { expect, it, describe } from "bun:test";
+import Alvamind, { type State } from "../src/core/alvamind-core";
+
+describe("Alvamind Watch Lifecycle", () => {
+  interface Counter { count: number; label: string }
+
+  const bump = (state: State<Counter>) => state.transaction(() => state.set(prev => ({ count: prev.count + 1 })));
+
+  it("should remove a watcher by its callback", () => {
+    const seen: number[] = [];
+    const onCount = (n: number) => seen.push(n);
+    const module = Alvamind<Counter>({ name: "watch.unwatch", state: { count: 0, label: "" } })
+      .watch("count", onCount);
+
+    bump(module.state);
+    module.unwatch(onCount);
+    bump(module.state);
+
+    expect(seen).toEqual([1]);
+  });
+
+  it("should call immediate watchers with the current value", () => {
+    const calls: Array<[number, number | undefined]> = [];
+    Alvamind<Counter>({ name: "watch.immediate", state: { count: 7, label: "" } })
+      .watch("count", (n, p) => calls.push([n, p]), { immediate: true });
+
+    expect(calls).toEqual([[7, undefined]]);
+  });
+
+  it("should remove once watchers after their first call", () => {
+    let calls = 0;
+    const module = Alvamind<Counter>({ name: "watch.once", state: { count: 0, label: "" } })
+      .watch("count", () => calls++, { once: true });
+
+    bump(module.state);
+    bump(module.state);
+
+    expect(calls).toBe(1);
+  });
+
+  it("should remove every watcher the module registered when it stops", () => {
+    let watched = 0;
+    let selected = 0;
+    const module = Alvamind<Counter>({ name: "watch.stop", state: { count: 0, label: "" } })
+      .watch("count", () => watched++)
+      .watchSelect(s => s.count * 2, () => selected++);
+
+    bump(module.state);
+    module.stop();
+    bump(module.state);
+
+    expect(watched).toBe(1);
+    expect(selected).toBe(1);
+  });
+
+  it("should keep listeners added directly to the state after stop", () => {
+    let calls = 0;
+    const module = Alvamind<Counter>({ name: "watch.direct", state: { count: 0, label: "" } });
+    module.state.add(() => calls++);
+
+    module.stop();
+    bump(module.state);
+
+    expect(calls).toBe(1);
+  });
+});